@@ -0,0 +1,272 @@
+import { describe, it, expect } from "vitest";
+import { IncrementalParser, type IncrementalParserOptions } from "./incremental-json-parser";
+import { JsonStreamParseError } from "./utils/error-utils";
+
+// Cases named after their counterparts in JSONTestSuite
+// (https://github.com/nst/JSONTestSuite): y_ must be accepted, n_ must be
+// rejected and i_ are implementation-defined.
+
+const accepted: Record<string, string> = {
+  y_array_arraysWithSpaces: "[[]   ]",
+  y_array_empty: "[]",
+  "y_array_empty-string": '[""]',
+  y_array_false: "[false]",
+  y_array_heterogeneous: '[null, 1, "1", {}]',
+  y_array_null: "[null]",
+  y_array_with_1_and_newline: "[1\n]",
+  y_array_with_leading_space: " [1]",
+  y_array_with_several_null: "[1,null,null,null,2]",
+  y_array_with_trailing_space: "[2] ",
+  y_number: "[123e65]",
+  "y_number_0e+1": "[0e+1]",
+  y_number_0e1: "[0e1]",
+  y_number_after_space: "[ 4]",
+  y_number_double_close_to_zero: "[-0.000000000000000000000000000000000000000000000000000000000001]",
+  y_number_int_with_exp: "[20e1]",
+  y_number_minus_zero: "[-0]",
+  y_number_negative_int: "[-123]",
+  y_number_negative_one: "[-1]",
+  y_number_real_capital_e: "[1E22]",
+  y_number_real_capital_e_neg_exp: "[1E-2]",
+  y_number_real_capital_e_pos_exp: "[1E+2]",
+  y_number_real_exponent: "[123e45]",
+  y_number_real_fraction_exponent: "[123.456e78]",
+  y_number_real_neg_exp: "[1e-2]",
+  y_number_real_pos_exponent: "[1e+2]",
+  y_number_simple_int: "[123]",
+  y_number_simple_real: "[123.456789]",
+  y_object: '{"asd":"sdf", "dfg":"fgh"}',
+  y_object_basic: '{"asd":"sdf"}',
+  y_object_duplicated_key: '{"a":"b","a":"c"}',
+  y_object_duplicated_key_and_value: '{"a":"b","a":"b"}',
+  y_object_empty: "{}",
+  y_object_empty_key: '{"":0}',
+  y_object_escaped_null_in_key: '{"foo\\u0000bar": 42}',
+  y_object_extreme_numbers: '{ "min": -1.0e+28, "max": 1.0e+28 }',
+  y_object_long_strings: '{"x":[{"id": "xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx"}], "id": "xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx"}',
+  y_object_simple: '{"a":[]}',
+  y_object_string_unicode: '{"title":"\\u041f\\u043e\\u043b\\u0442\\u043e\\u0440\\u0430 \\u0417\\u0435\\u043c\\u043b\\u0435\\u043a\\u043e\\u043f\\u0430" }',
+  y_object_with_newlines: '{\n"a": "b"\n}',
+  "y_string_1_2_3_bytes_UTF-8_sequences": '["\\u0060\\u012a\\u12AB"]',
+  y_string_accepted_surrogate_pair: '["\\uD801\\udc37"]',
+  y_string_allowed_escapes: '["\\"\\\\\\/\\b\\f\\n\\r\\t"]',
+  y_string_backslash_and_u_escaped_zero: '["\\\\u0000"]',
+  y_string_comments: '["a/*b*/c/*d//e"]',
+  y_string_double_escape_a: '["\\\\a"]',
+  y_string_escaped_control_character: '["\\u0012"]',
+  y_string_in_array: '["asd"]',
+  y_string_space: '" "',
+  y_string_unicode_2: '["⍂㈴⍂"]',
+  y_string_utf8: '["€𝄞"]',
+  y_structure_lonely_false: "false",
+  y_structure_lonely_int: "42",
+  y_structure_lonely_negative_real: "-0.1",
+  y_structure_lonely_null: "null",
+  y_structure_lonely_string: '"asd"',
+  y_structure_lonely_true: "true",
+  y_structure_string_empty: '""',
+  y_structure_trailing_newline: '["a"]\n',
+  y_structure_true_in_array: "[true]",
+  y_structure_whitespace_array: " [] ",
+};
+
+const rejected: Record<string, string> = {
+  n_array_1_true_without_comma: "[1 true]",
+  n_array_comma_after_close: '[""],',
+  n_array_comma_and_number: "[,1]",
+  n_array_double_comma: "[1,,2]",
+  n_array_extra_close: '["x"]]',
+  n_array_extra_comma: '["",]',
+  n_array_incomplete: '["x"',
+  n_array_inner_array_no_comma: "[3[4]]",
+  n_array_items_separated_by_semicolon: "[1:2]",
+  n_array_just_comma: "[,]",
+  n_array_just_minus: "[-]",
+  n_array_missing_value: '[   , ""]',
+  n_array_number_and_comma: "[1,]",
+  n_array_unclosed: '[""',
+  n_array_unclosed_trailing_comma: "[1,",
+  n_incomplete_false: "[fals]",
+  n_incomplete_null: "[nul]",
+  n_incomplete_true: "[tru]",
+  "n_number_++": "[++1234]",
+  "n_number_+1": "[+1]",
+  "n_number_-01": "[-01]",
+  "n_number_-1.0.": "[-1.0.]",
+  "n_number_-2.": "[-2.]",
+  "n_number_-NaN": "[-NaN]",
+  "n_number_.-1": "[.-1]",
+  "n_number_.2e-3": "[.2e-3]",
+  "n_number_0.1.2": "[0.1.2]",
+  "n_number_0.3e+": "[0.3e+]",
+  "n_number_0.e1": "[0.e1]",
+  n_number_0_capital_E: "[0E]",
+  "n_number_1.0e-": "[1.0e-]",
+  n_number_1_000: "[1 000.0]",
+  "n_number_2.e3": "[2.e3]",
+  "n_number_9.e+": "[9.e+]",
+  n_number_Inf: "[Inf]",
+  n_number_NaN: "[NaN]",
+  n_number_expression: "[1+2]",
+  n_number_hex_1_digit: "[0x1]",
+  n_number_minus_space_1: "[- 1]",
+  n_number_neg_int_starting_with_zero: "[-012]",
+  n_number_neg_real_without_int_part: "[-.123]",
+  n_number_real_without_fractional_part: "[1.]",
+  n_number_with_leading_zero: "[012]",
+  n_object_bad_value: '["x", truth]',
+  n_object_comma_instead_of_colon: '{"x", null}',
+  n_object_double_colon: '{"x"::"b"}',
+  n_object_missing_colon: '{"a" b}',
+  n_object_missing_key: '{:"b"}',
+  n_object_missing_value: '{"a":',
+  "n_object_no-colon": '{"a"',
+  n_object_non_string_key: "{1:1}",
+  n_object_single_quote: "{'a':0}",
+  n_object_trailing_comma: '{"id":0,}',
+  n_object_two_commas_in_a_row: '{"a":"b",,"c":"d"}',
+  n_object_unquoted_key: '{a: "b"}',
+  n_object_with_trailing_garbage: '{"a":"b"}#',
+  n_single_space: " ",
+  n_string_escape_x: '["\\x00"]',
+  n_string_escaped_backslash_bad: '["\\\\\\"]',
+  n_string_incomplete_escape: '["\\"]',
+  n_string_incomplete_surrogate_escape_invalid: '["\\uD800\\uD800\\x"]',
+  n_string_invalid_unicode_escape: '["\\uqqqq"]',
+  n_string_single_quote: "['single quote']",
+  n_string_unescaped_ctrl_char: '["a\u0000a"]',
+  n_string_unescaped_newline: '["new\nline"]',
+  n_string_unescaped_tab: '["\t"]',
+  n_structure_array_with_extra_array_close: "[1]]",
+  n_structure_capitalized_True: "[True]",
+  n_structure_close_unopened_array: "1]",
+  n_structure_comma_instead_of_closing_brace: '{"x": true,',
+  n_structure_double_array: "[][]",
+  n_structure_end_array: "]",
+  "n_structure_lone-open-bracket": "[",
+  n_structure_no_data: "",
+  n_structure_number_with_trailing_garbage: "2@",
+  n_structure_object_followed_by_closing_object: "{}}",
+  n_structure_object_with_trailing_garbage: '{"a": true} "x"',
+  n_structure_open_array_object: "[{",
+  n_structure_trailing_hash: '{"a":"b"}#{}',
+  n_structure_unclosed_array: "[1",
+  n_structure_unclosed_object: '{"asd":"asd"',
+  n_structure_whitespace_formfeed: "[\f]",
+  n_multidigit_number_then_00: "123\u0000",
+};
+
+const implementationDefined: Record<string, string> = {
+  i_number_huge_exp: "[123123e100000]",
+  i_number_real_neg_overflow: "[-123123e100000]",
+  i_number_real_pos_overflow: "[123123e100000]",
+  i_number_real_underflow: "[123e-10000000]",
+  i_number_very_big_negative_int: "[-237462374673276894279832749832423479823246327846]",
+  i_string_1st_surrogate_but_2nd_missing: '["\\uDADA"]',
+  i_string_inverted_surrogates_U_1D11E: '["\\uDd1e\\uD834"]',
+  i_string_lone_second_surrogate: '["\\uDFAA"]',
+  i_structure_UTF_8_BOM_empty_object: "\uFEFF{}",
+  i_structure_100_nested_arrays: "[".repeat(100) + "]".repeat(100),
+};
+
+type Outcome = { value: unknown } | { error: string };
+
+const parse = (chunks: string[], options: IncrementalParserOptions): Outcome => {
+  const parser = new IncrementalParser(options);
+  try {
+    for (const chunk of chunks) {
+      parser.feed(chunk);
+    }
+    return { value: parser.end() };
+  } catch (error) {
+    if (!(error instanceof JsonStreamParseError)) {
+      throw error;
+    }
+    return { error: error.code };
+  }
+};
+
+/**
+ * Every way of feeding the text: whole, split in two at each position and one
+ * character at a time
+ */
+const chunkings = (text: string): string[][] => {
+  const result: string[][] = [[text]];
+  for (let i = 0; i <= text.length; i++) {
+    result.push([text.slice(0, i), text.slice(i)]);
+  }
+  result.push(text.split(""));
+  return result;
+};
+
+describe("IncrementalParser strict conformance", () => {
+  const strict = { strict: true };
+
+  describe("accepts valid documents at every chunk split", () => {
+    for (const [name, text] of Object.entries(accepted)) {
+      it(name, () => {
+        const expected = JSON.parse(text);
+        for (const chunks of chunkings(text)) {
+          expect(parse(chunks, strict)).toEqual({ value: expected });
+        }
+      });
+    }
+  });
+
+  describe("rejects invalid documents at every chunk split", () => {
+    for (const [name, text] of Object.entries(rejected)) {
+      it(name, () => {
+        for (const chunks of chunkings(text)) {
+          const outcome = parse(chunks, strict);
+          expect(outcome, JSON.stringify(chunks)).toHaveProperty("error");
+        }
+      });
+    }
+  });
+
+  describe("handles implementation-defined documents consistently", () => {
+    for (const [name, text] of Object.entries(implementationDefined)) {
+      it(name, () => {
+        const whole = parse([text], strict);
+        for (const chunks of chunkings(text)) {
+          expect(parse(chunks, strict)).toEqual(whole);
+        }
+      });
+    }
+  });
+
+  it("reports the first character that breaks the number grammar", () => {
+    const parser = new IncrementalParser(strict);
+    try {
+      parser.feed("[1.5e+3, 01]");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(JsonStreamParseError);
+      expect((error as JsonStreamParseError).code).toBe("INVALID_NUMBER");
+      expect((error as JsonStreamParseError).column).toBe(11);
+    }
+  });
+});
+
+describe("IncrementalParser default mode", () => {
+  it("accepts every valid document", () => {
+    for (const text of Object.values(accepted)) {
+      expect(parse([text], {})).toEqual({ value: JSON.parse(text) });
+    }
+  });
+
+  it("flushes a top-level number at the end of the input", () => {
+    for (const chunks of chunkings("-12.5e1")) {
+      expect(parse(chunks, {})).toEqual({ value: -125 });
+    }
+  });
+
+  it("rejects numbers that do not evaluate", () => {
+    expect(parse(["[1-2+e.]"], {})).toEqual({ error: "INVALID_NUMBER" });
+    expect(parse(["-"], {})).toEqual({ error: "INVALID_NUMBER" });
+  });
+
+  it("stays lenient about trailing commas and leading zeros", () => {
+    expect(parse(['{"a": [01, 2,],}'], {})).toEqual({ value: { a: [1, 2] } });
+  });
+});
@@ -1,5 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { incrementalJsonParser } from "./incremental-json-parser";
+import {
+  incrementalJsonParser,
+  jsonEventParser,
+  IncrementalParser,
+  getOpenStringPointer,
+  type IncrementalParserOptions,
+} from "./incremental-json-parser";
+import { JsonStreamParseError, JsonStreamLimitError } from "./utils/error-utils";
+import type { JsonParseEvent, JsonRepair } from "./types";
 import { createJSONReadableStreamDefaultReader } from "./utils/test-helpers/create-json-readable-stream-default-reader";
 
 describe("incrementalJsonParser", () => {
@@ -78,3 +86,1117 @@ describe("incrementalJsonParser", () => {
     expect(results[results.length - 1]).toEqual(JSON.parse(json));
   });
 });
+
+describe("IncrementalParser events", () => {
+  it("emits SAX-style events with paths and byte offsets in push mode", () => {
+    const events: JsonParseEvent[] = [];
+    const parser = new IncrementalParser({ onEvent: (e) => events.push(e) });
+    parser.feed('{"a": [1, "x"');
+    parser.feed('], "b": {"c": null}}');
+    parser.end();
+
+    expect(events).toEqual([
+      { type: "startObject", path: "", offset: 0 },
+      { type: "key", key: "a", path: "/a", offset: 1 },
+      { type: "startArray", path: "/a", offset: 6 },
+      { type: "value", value: 1, raw: "1", path: "/a/0", offset: 7 },
+      { type: "value", value: "x", path: "/a/1", offset: 10 },
+      { type: "endArray", path: "/a", offset: 13, value: [1, "x"] },
+      { type: "key", key: "b", path: "/b", offset: 16 },
+      { type: "startObject", path: "/b", offset: 21 },
+      { type: "key", key: "c", path: "/b/c", offset: 22 },
+      { type: "value", value: null, path: "/b/c", offset: 27 },
+      { type: "endObject", path: "/b", offset: 31, value: { c: null } },
+      { type: "endObject", path: "", offset: 32, value: { a: [1, "x"], b: { c: null } } },
+    ]);
+  });
+
+  it("counts offsets in UTF-8 bytes and escapes pointer segments", () => {
+    const events: JsonParseEvent[] = [];
+    const parser = new IncrementalParser({ onEvent: (e) => events.push(e) });
+    parser.feed('{"あ": "🎉", "a/b": 1}');
+    parser.end();
+
+    const values = events.filter((e) => e.type === "value");
+    expect(values).toEqual([
+      { type: "value", value: "🎉", path: "/あ", offset: 8 },
+      { type: "value", value: 1, raw: "1", path: "/a~1b", offset: 23 },
+    ]);
+  });
+
+  it("does not build snapshots when buildTree is disabled", () => {
+    const events: JsonParseEvent[] = [];
+    const parser = new IncrementalParser({
+      buildTree: false,
+      onEvent: (e) => events.push(e),
+    });
+    parser.feed('[{"id": 1}, {"id": 2}]');
+    parser.end();
+
+    expect(parser.collectUpdates()).toEqual([]);
+    expect(parser.root).toBeUndefined();
+    expect(events.filter((e) => e.type === "value").map((e) => e.path)).toEqual([
+      "/0/id",
+      "/1/id",
+    ]);
+  });
+
+  it("yields events from a reader with jsonEventParser", async () => {
+    const json = '{"items": [{"id": 1}, {"id": 2}]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 3);
+
+    const types: string[] = [];
+    for await (const event of jsonEventParser(reader)) {
+      types.push(event.type);
+    }
+    expect(types).toEqual([
+      "startObject",
+      "key",
+      "startArray",
+      "startObject",
+      "key",
+      "value",
+      "endObject",
+      "startObject",
+      "key",
+      "value",
+      "endObject",
+      "endArray",
+      "endObject",
+    ]);
+  });
+});
+
+describe("IncrementalParser snapshots", () => {
+  it("shares untouched subtrees between consecutive snapshots", () => {
+    const parser = new IncrementalParser();
+    parser.feed('{"done": {"id": 1}, "items": [{"a": 1}, {"b": ');
+    const before = parser.collectUpdates().pop();
+    parser.feed("2}]}");
+    const after = parser.collectUpdates().pop();
+
+    expect(after).not.toBe(before);
+    expect(after.done).toBe(before.done);
+    expect(after.items[0]).toBe(before.items[0]);
+    expect(after.items[1]).not.toBe(before.items[1]);
+    expect(before.items[1]).toEqual({});
+    expect(after).toEqual({ done: { id: 1 }, items: [{ a: 1 }, { b: 2 }] });
+  });
+
+  it("keeps earlier snapshots unchanged as parsing continues", () => {
+    const parser = new IncrementalParser();
+    const updates: any[] = [];
+    for (const chunk of ["[1", ", 2", ", [3", "]]"]) {
+      parser.feed(chunk);
+      updates.push(...parser.collectUpdates());
+    }
+    parser.end();
+
+    expect(updates.map((u) => JSON.stringify(u))).toEqual([
+      "[]",
+      "[1]",
+      "[1,2,[]]",
+      "[1,2,[3]]",
+    ]);
+  });
+
+  it("queues one snapshot per chunk and scales linearly on wide arrays", () => {
+    const count = 200_000;
+    const text = "[" + new Array(count).fill("0").join(",") + "]";
+    const start = Date.now();
+    const parser = new IncrementalParser();
+    parser.feed(text);
+    const updates = parser.collectUpdates();
+    const elapsed = Date.now() - start;
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toHaveLength(count);
+    // Copying the array for every element took seconds for a tenth of this size
+    expect(elapsed).toBeLessThan(5000);
+
+    const chunked = new IncrementalParser();
+    const snapshots: any[] = [];
+    for (let i = 0; i < 2000; i += 500) {
+      chunked.feed(text.slice(i, i + 500));
+      snapshots.push(...chunked.collectUpdates());
+    }
+    expect(snapshots).toHaveLength(4);
+    // The number at the end of each chunk is only stored once the next chunk ends it
+    expect(snapshots.map((snapshot) => snapshot.length)).toEqual([249, 499, 749, 999]);
+  });
+
+  it("defers snapshots of wide open arrays fed in small chunks to stay linear", () => {
+    const count = 100_000;
+    const text = JSON.stringify({ items: Array.from({ length: count }, (_, id) => ({ id })) });
+    const start = Date.now();
+    const parser = new IncrementalParser();
+    const snapshots: any[] = [];
+    for (let i = 0; i < text.length; i += 100) {
+      parser.feed(text.slice(i, i + 100));
+      snapshots.push(...parser.collectUpdates());
+    }
+    parser.end();
+    snapshots.push(...parser.collectUpdates());
+    const elapsed = Date.now() - start;
+
+    // Copying the open array once per 100-byte chunk took tens of seconds
+    expect(elapsed).toBeLessThan(5000);
+    const lengths = snapshots.map((snapshot) => snapshot.items?.length ?? 0);
+    expect(lengths.every((length, i) => i === 0 || length >= lengths[i - 1])).toBe(true);
+    // Small arrays still get a snapshot per chunk, larger ones at growing intervals
+    expect(lengths.filter((length) => length <= 1024).length).toBeGreaterThan(100);
+    expect(snapshots.length).toBeLessThan(text.length / 100 / 10);
+    expect(snapshots[snapshots.length - 1]).toEqual(JSON.parse(text));
+  });
+
+  it("reports closed structures with the identity used in snapshots", () => {
+    const parser = new IncrementalParser();
+    parser.feed('{"user": {"name": "Alice"}, "n": 1}');
+    const closed = parser.collectClosedStructures();
+    const last = parser.collectUpdates().pop();
+
+    expect(closed[0]).toBe(last.user);
+    expect(closed[1]).toBe(last);
+  });
+
+  it("freezes snapshots when freezeSnapshots is enabled", () => {
+    const parser = new IncrementalParser({ freezeSnapshots: true });
+    parser.feed('{"list": [{"x": 1}]');
+    const snapshot = parser.collectUpdates().pop();
+
+    expect(Object.isFrozen(snapshot)).toBe(true);
+    expect(Object.isFrozen(snapshot.list)).toBe(true);
+    expect(Object.isFrozen(snapshot.list[0])).toBe(true);
+    parser.feed(', "more": true}');
+    expect(parser.end()).toEqual({ list: [{ x: 1 }], more: true });
+  });
+});
+
+describe("IncrementalParser strings", () => {
+  it("decodes escape sequences split across chunks", () => {
+    const parser = new IncrementalParser();
+    for (const chunk of ['{"s": "a\\', 'n\\"b\\u00', "e9\\ud83c", '\\udf89"}']) {
+      parser.feed(chunk);
+    }
+    expect(parser.end()).toEqual({ s: 'a\n"bé🎉' });
+  });
+
+  it("rejects invalid escape sequences", () => {
+    expect(() => new IncrementalParser().feed('"\\x"')).toThrow("Invalid escape character x");
+    expect(() => new IncrementalParser().feed('"\\u12g4"')).toThrow("Invalid unicode escape");
+  });
+
+  it("publishes growing string values when partialStrings is enabled", () => {
+    const parser = new IncrementalParser({ partialStrings: true });
+    const snapshots: any[] = [];
+    for (const chunk of ['{"title": "Hi", "sto', 'ry": "Once up', "on a \\", 'ttime"}']) {
+      parser.feed(chunk);
+      snapshots.push(...parser.collectUpdates());
+    }
+    parser.end();
+
+    const stories = snapshots
+      .filter((s) => getOpenStringPointer(s) === "/story")
+      .map((s) => s.story);
+    expect(stories).toEqual(["Once up", "Once upon a "]);
+    expect(snapshots[snapshots.length - 1]).toEqual({
+      title: "Hi",
+      story: "Once upon a \ttime",
+    });
+    expect(getOpenStringPointer(snapshots[snapshots.length - 1])).toBeNull();
+  });
+
+  it("does not expose partial keys or partial strings by default", () => {
+    const parser = new IncrementalParser();
+    parser.feed('{"story": "Once up');
+    expect(parser.collectUpdates()).toEqual([{}]);
+
+    const partial = new IncrementalParser({ partialStrings: true });
+    partial.feed('{"sto');
+    expect(partial.collectUpdates()).toEqual([{}]);
+  });
+
+  it("publishes partial strings inside arrays", () => {
+    const parser = new IncrementalParser({ partialStrings: true });
+    parser.feed('["done", "wor');
+    const snapshot = parser.collectUpdates().pop();
+    expect(snapshot).toEqual(["done", "wor"]);
+    expect(getOpenStringPointer(snapshot)).toBe("/1");
+    parser.feed('k"]');
+    expect(parser.end()).toEqual(["done", "work"]);
+  });
+});
+
+describe("IncrementalParser errors", () => {
+  const parseError = (...chunks: string[]): JsonStreamParseError => {
+    const parser = new IncrementalParser();
+    try {
+      chunks.forEach((chunk) => parser.feed(chunk));
+      parser.end();
+    } catch (error) {
+      expect(error).toBeInstanceOf(JsonStreamParseError);
+      return error as JsonStreamParseError;
+    }
+    throw new Error("Expected a parse error");
+  };
+
+  it("reports the position of the offending character across chunks", () => {
+    const error = parseError('{\n  "é": [1,\n', '   2 x]}');
+
+    expect(error.code).toBe("UNEXPECTED_TOKEN");
+    expect(error.message).toBe("Unexpected token x at line 3, column 6");
+    expect(error.byteOffset).toBe(19);
+    expect(error.charOffset).toBe(18);
+    expect(error.line).toBe(3);
+    expect(error.column).toBe(6);
+    expect(error.pointer).toBe("/é");
+    expect(error.parserState).toBe("default");
+    expect(error.contextState).toBe("expectCommaOrEnd");
+  });
+
+  it("includes a snippet of the surrounding input", () => {
+    const error = parseError('{"first": "value", "second": ', '"other", "third" 3}');
+
+    expect(error.code).toBe("UNEXPECTED_VALUE");
+    expect(error.message).toBe("Unexpected value in object at line 1, column 47");
+    expect(error.snippet).toBe('": "other", "third" 3}');
+    expect(error.snippet[error.snippetOffset]).toBe("3");
+    expect(error.pointer).toBe("");
+    expect(error.contextState).toBe("expectColon");
+  });
+
+  it("assigns stable codes", () => {
+    expect(parseError('{"a": 1').code).toBe("UNEXPECTED_END");
+    expect(parseError('"abc').parserState).toBe("string");
+    expect(parseError('"\\q"').code).toBe("INVALID_ESCAPE");
+    expect(parseError('"\\u00zz"').code).toBe("INVALID_UNICODE_ESCAPE");
+    expect(parseError('[1 2]').code).toBe("UNEXPECTED_VALUE");
+    expect(parseError('[1,,2]').code).toBe("UNEXPECTED_COMMA");
+    expect(parseError('[1:2]').code).toBe("UNEXPECTED_COLON");
+    expect(parseError('{"a"}').code).toBe("UNEXPECTED_CLOSING_BRACKET");
+    expect(parseError('[1}').code).toBe("MISMATCHED_CLOSING_BRACKET");
+    expect(parseError('nul!').code).toBe("UNEXPECTED_TOKEN");
+  });
+
+  it("locates errors at the end of the input", () => {
+    const error = parseError('[1,\n2');
+
+    expect(error.code).toBe("UNEXPECTED_END");
+    expect(error.line).toBe(2);
+    expect(error.column).toBe(2);
+    expect(error.byteOffset).toBe(5);
+    expect(error.pointer).toBe("");
+    expect(error.snippetOffset).toBe(error.snippet.length);
+  });
+});
+
+describe("IncrementalParser syntax", () => {
+  const parseAtEverySplit = (text: string, options: IncrementalParserOptions) => {
+    const results: any[] = [];
+    for (let i = 0; i <= text.length; i++) {
+      const parser = new IncrementalParser(options);
+      parser.feed(text.slice(0, i));
+      parser.feed(text.slice(i));
+      results.push(parser.end());
+    }
+    return results;
+  };
+
+  it("accepts comments and trailing commas with jsonc", () => {
+    const text = `// settings
+{
+  "a": 1, /* inline */ "b": [true, null,],
+  "c": "/* not a comment */", // trailing
+} // done`;
+    for (const result of parseAtEverySplit(text, { syntax: "jsonc" })) {
+      expect(result).toEqual({ a: 1, b: [true, null], c: "/* not a comment */" });
+    }
+  });
+
+  it("accepts the JSON5 extensions", () => {
+    const text = `{
+  unquoted: 'single "quoted"',
+  $id_2: "esc\\x41\\v\\'\\
+pe",
+  hex: 0x1F, negHex: -0xa, plus: +1, lead: .5, trail: 5.,
+  inf: Infinity, negInf: -Infinity, nan: NaN,
+  list: [1, 2,],
+}`;
+    for (const result of parseAtEverySplit(text, { syntax: "json5", strict: true })) {
+      expect(result).toEqual({
+        unquoted: 'single "quoted"',
+        $id_2: "escA\v'pe",
+        hex: 31,
+        negHex: -10,
+        plus: 1,
+        lead: 0.5,
+        trail: 5,
+        inf: Infinity,
+        negInf: -Infinity,
+        nan: NaN,
+        list: [1, 2],
+      });
+    }
+  });
+
+  it("emits key events for unquoted keys", () => {
+    const events: JsonParseEvent[] = [];
+    const parser = new IncrementalParser({ syntax: "json5", onEvent: (e) => events.push(e) });
+    parser.feed("{ab: 'x'}");
+    parser.end();
+    expect(events[1]).toEqual({ type: "key", key: "ab", path: "/ab", offset: 1 });
+  });
+
+  it("publishes partial single-quoted strings", () => {
+    const parser = new IncrementalParser({ syntax: "json5", partialStrings: true });
+    parser.feed("{story: 'Once up");
+    expect(parser.collectUpdates().pop()).toEqual({ story: "Once up" });
+    parser.feed("on'}");
+    expect(parser.end()).toEqual({ story: "Once upon" });
+  });
+
+  it("rejects dialect features outside their syntax", () => {
+    expect(() => new IncrementalParser().feed("[1 // x\n]")).toThrow("Unexpected token /");
+    expect(() => new IncrementalParser({ syntax: "jsonc" }).feed("['a']")).toThrow("Unexpected token '");
+    expect(() => new IncrementalParser({ syntax: "jsonc" }).feed("{a: 1}")).toThrow("Unexpected token a");
+    expect(() => new IncrementalParser({ syntax: "jsonc" }).feed("[Infinity]")).toThrow("Unexpected token I");
+    expect(() => {
+      const parser = new IncrementalParser({ syntax: "jsonc" });
+      parser.feed("[1] /* open");
+      parser.end();
+    }).toThrow("Unexpected end of JSON input");
+  });
+});
+
+describe("IncrementalParser repair", () => {
+  const repairAll = (text: string, options: IncrementalParserOptions = {}) => {
+    const repairs: JsonRepair[] = [];
+    const parser = new IncrementalParser({ ...options, repair: true, onRepair: (r) => repairs.push(r) });
+    parser.feed(text);
+    return { value: parser.end(), repairs };
+  };
+
+  it("keeps raw newlines inside strings and reports them", () => {
+    const { value, repairs } = repairAll('{"text": "line 1\nline 2"}');
+    expect(value).toEqual({ text: "line 1\nline 2" });
+    expect(repairs).toEqual([{ kind: "escapeControlCharacter", offset: 16, pointer: "/text" }]);
+  });
+
+  it("reads Python literals", () => {
+    const { value, repairs } = repairAll('{"ok": True, "bad": False, "none": None}');
+    expect(value).toEqual({ ok: true, bad: false, none: null });
+    expect(repairs.map((r) => [r.kind, r.pointer])).toEqual([
+      ["pythonLiteral", "/ok"],
+      ["pythonLiteral", "/bad"],
+      ["pythonLiteral", "/none"],
+    ]);
+  });
+
+  it("inserts missing commas", () => {
+    const { value, repairs } = repairAll('{"items": [{"id": 1} {"id": 2} 3 "x"] "next": true}');
+    expect(value).toEqual({ items: [{ id: 1 }, { id: 2 }, 3, "x"], next: true });
+    expect(repairs.map((r) => [r.kind, r.pointer])).toEqual([
+      ["insertComma", "/items"],
+      ["insertComma", "/items"],
+      ["insertComma", "/items"],
+      ["insertComma", ""],
+    ]);
+  });
+
+  it("reads single-quoted strings", () => {
+    const { value, repairs } = repairAll("{'a': True, 'b': 'it\\'s \"x\"'}");
+    expect(value).toEqual({ a: true, b: 'it\'s "x"' });
+    expect(repairs.map((r) => [r.kind, r.pointer])).toEqual([
+      ["singleQuotedString", ""],
+      ["pythonLiteral", "/a"],
+      ["singleQuotedString", ""],
+      ["singleQuotedString", "/b"],
+    ]);
+  });
+
+  it("quotes unquoted keys", () => {
+    const { value, repairs } = repairAll('{a: 1, b_2: {c: [true]}}');
+    expect(value).toEqual({ a: 1, b_2: { c: [true] } });
+    expect(repairs.map((r) => [r.kind, r.pointer])).toEqual([
+      ["quoteKey", ""],
+      ["quoteKey", ""],
+      ["quoteKey", "/b_2"],
+    ]);
+  });
+
+  it("inserts missing colons", () => {
+    const { value, repairs } = repairAll('{"a" 1, "b" {"c" "d"}}');
+    expect(value).toEqual({ a: 1, b: { c: "d" } });
+    expect(repairs.map((r) => [r.kind, r.pointer])).toEqual([
+      ["insertColon", "/a"],
+      ["insertColon", "/b"],
+      ["insertColon", "/b/c"],
+    ]);
+  });
+
+  it("skips repeated commas in objects and arrays", () => {
+    for (const [text, expected] of [
+      ['{"a": 1,, "b": 2}', { a: 1, b: 2 }],
+      ['{, "a": 1}', { a: 1 }],
+      ["[1,,2]", [1, 2]],
+    ] as [string, any][]) {
+      const { value, repairs } = repairAll(text);
+      expect(value, text).toEqual(expected);
+      expect(repairs.map((r) => r.kind), text).toEqual(["skipCharacter"]);
+    }
+  });
+
+  it("fixes mismatched and stray closing brackets and skips stray characters", () => {
+    const { value, repairs } = repairAll('{"a": [1, 2}, "b": @3}]');
+    expect(value).toEqual({ a: [1, 2], b: 3 });
+    expect(repairs.map((r) => r.kind)).toEqual(["fixClosingBracket", "skipCharacter", "dropClosingBracket"]);
+  });
+
+  it("drops words that are not literals", () => {
+    const cases: [string, any, string[]][] = [
+      ['{"a": undefined}', {}, ["skipCharacter", "dropIncompleteValue", "dropDanglingKey"]],
+      ['{"a": NaN, "b": 1}', { b: 1 }, ["dropIncompleteValue", "dropDanglingKey"]],
+      ["[1, nope, 2]", [1, 2], ["dropIncompleteValue", "skipCharacter"]],
+    ];
+    for (const [text, expected, kinds] of cases) {
+      const { value, repairs } = repairAll(text);
+      expect(value, text).toEqual(expected);
+      expect(repairs.map((r) => r.kind), text).toEqual(kinds);
+    }
+  });
+
+  it("does not read inherited object members as literals", () => {
+    for (const [text, expected] of [
+      ["[toString]", []],
+      ['{"a": constructor}', {}],
+      ['{"a": toLocaleString, "b": 1}', { b: 1 }],
+    ] as [string, any][]) {
+      const { value, repairs } = repairAll(text);
+      expect(value, text).toEqual(expected);
+      expect(repairs.map((r) => r.kind), text).not.toContain("pythonLiteral");
+    }
+  });
+
+  it("skips text after the root value as a single repair", () => {
+    for (const text of ['{"a":1} extra', '{"a":1} That\'s it', '{"a":1}\n\nLet me know if you need "more" {}.\n']) {
+      const { value, repairs } = repairAll(text);
+      const trailing = text.slice(8).trim();
+      expect(value, text).toEqual({ a: 1 });
+      expect(repairs, text).toEqual([
+        { kind: "skipTrailingText", offset: text.indexOf(trailing), pointer: "", length: trailing.length },
+      ]);
+    }
+  });
+
+  it("closes input truncated mid-value", () => {
+    const cases: [string, any, string[]][] = [
+      ['{"story": "Once up', { story: "Once up" }, ["closeString", "closeStructure"]],
+      ['{"items": [1, 2, {"id": 3', { items: [1, 2, { id: 3 }] }, ["closeStructure", "closeStructure", "closeStructure"]],
+      ['{"done": tr', { done: true }, ["completeLiteral", "closeStructure"]],
+      ['{"n": 1e', {}, ["dropIncompleteValue", "closeStructure", "dropDanglingKey"]],
+      ['{"a": 1, "b"', { a: 1 }, ["closeStructure", "dropDanglingKey"]],
+      ['{"a": 1, "b', { a: 1 }, ["dropDanglingKey", "closeStructure"]],
+      ['[1, 2, ', [1, 2], ["closeStructure"]],
+      ['"top', "top", ["closeString"]],
+      ["12", 12, []],
+    ];
+    for (const [text, expected, kinds] of cases) {
+      const { value, repairs } = repairAll(text);
+      expect(value, text).toEqual(expected);
+      expect(repairs.map((r) => r.kind), text).toEqual(kinds);
+    }
+  });
+
+  it("emits end events and closed snapshots for repaired structures", () => {
+    const events: JsonParseEvent[] = [];
+    const parser = new IncrementalParser({ repair: true, onEvent: (e) => events.push(e) });
+    parser.feed('{"a": [1');
+    expect(parser.end()).toEqual({ a: [1] });
+    expect(events.slice(-2).map((e) => [e.type, e.path])).toEqual([
+      ["endArray", "/a"],
+      ["endObject", ""],
+    ]);
+    expect(parser.collectClosedStructures()).toEqual([[1], { a: [1] }]);
+  });
+
+  it("still throws without the repair option", () => {
+    expect(() => new IncrementalParser().feed('{"ok": True}')).toThrow("Unexpected token T");
+  });
+});
+
+describe("IncrementalParser multiDocument", () => {
+  const parseAtEverySplit = (text: string, options: IncrementalParserOptions) => {
+    const results: any[] = [];
+    for (let i = 0; i <= text.length; i++) {
+      const parser = new IncrementalParser({ ...options, multiDocument: true });
+      parser.feed(text.slice(0, i));
+      parser.feed(text.slice(i));
+      results.push(parser.end());
+    }
+    return results;
+  };
+
+  it("returns every document of NDJSON, concatenated JSON and RS-framed input", () => {
+    const expected = [{ a: 1 }, [2], "three", 4, null];
+    const framings = [
+      '{"a":1}\n[2]\n"three"\n4\nnull\n',
+      '{"a":1}[2]"three" 4 null',
+      '\u001e{"a":1}\n\u001e[2]\n\u001e"three"\n\u001e4\n\u001enull\n',
+    ];
+    for (const text of framings) {
+      for (const result of parseAtEverySplit(text, {})) {
+        expect(result, JSON.stringify(text)).toEqual(expected);
+      }
+    }
+  });
+
+  it("accepts several roots in strict mode", () => {
+    for (const result of parseAtEverySplit('{"a":1}\n{"a":2}\n', { strict: true })) {
+      expect(result).toEqual([{ a: 1 }, { a: 2 }]);
+    }
+    expect(parseAtEverySplit("", { strict: true })[0]).toEqual([]);
+  });
+
+  it("tags events and updates with the document index", () => {
+    const events: JsonParseEvent[] = [];
+    const parser = new IncrementalParser({ multiDocument: true, onEvent: (e) => events.push(e) });
+    parser.feed('{"a":1}\n{"a":2}\n');
+    expect(events.map((e) => [e.type, e.path, e.document])).toEqual([
+      ["startObject", "", 0],
+      ["key", "/a", 0],
+      ["value", "/a", 0],
+      ["endObject", "", 0],
+      ["startObject", "", 1],
+      ["key", "/a", 1],
+      ["value", "/a", 1],
+      ["endObject", "", 1],
+    ]);
+    expect(parser.collectUpdates()).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(parser.collectUpdateDocuments()).toEqual([0, 1]);
+  });
+
+  it("drops finished documents with keepDocuments: false", () => {
+    const parser = new IncrementalParser({ multiDocument: true, keepDocuments: false });
+    parser.feed('{"a":1}\n{"a":2}\n');
+    expect(parser.documents).toEqual([]);
+    expect(parser.collectUpdates()).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(parser.end()).toEqual([]);
+  });
+
+  it("leaves events untagged in single-document mode", () => {
+    const events: JsonParseEvent[] = [];
+    const parser = new IncrementalParser({ onEvent: (e) => events.push(e) });
+    parser.feed("[1]");
+    expect(events.every((e) => !("document" in e))).toBe(true);
+    expect(parser.collectUpdateDocuments()).toEqual([]);
+  });
+
+  it("rejects a record separator outside multi-document mode", () => {
+    expect(() => new IncrementalParser().feed("\u001e{}")).toThrow(JsonStreamParseError);
+  });
+
+  it("repairs a truncated last document", () => {
+    const parser = new IncrementalParser({ multiDocument: true, repair: true });
+    parser.feed('{"a":1}\n{"a":[2');
+    expect(parser.end()).toEqual([{ a: 1 }, { a: [2] }]);
+  });
+});
+
+describe("IncrementalParser numbers", () => {
+  const text = '{"id": 12345678901234567890, "safe": 9007199254740991, "price": 1.50, "neg": -9007199254740993}';
+
+  const parse = (input: string, options: IncrementalParserOptions) => {
+    const parser = new IncrementalParser(options);
+    parser.feed(input);
+    return parser.end();
+  };
+
+  it("converts to JavaScript numbers by default", () => {
+    expect(parse(text, {})).toEqual({
+      id: 12345678901234567000,
+      safe: 9007199254740991,
+      price: 1.5,
+      neg: -9007199254740992,
+    });
+  });
+
+  it("turns only integers beyond the safe range into BigInts", () => {
+    expect(parse(text, { numbers: "bigint" })).toEqual({
+      id: BigInt("12345678901234567890"),
+      safe: 9007199254740991,
+      price: 1.5,
+      neg: -BigInt("9007199254740993"),
+    });
+    expect(parse("[1e30, 0x20000000000001, -0x20000000000001]", { numbers: "bigint", syntax: "json5" })).toEqual([
+      1e30,
+      BigInt("0x20000000000001"),
+      -BigInt("0x20000000000001"),
+    ]);
+  });
+
+  it("keeps the source text with 'string'", () => {
+    expect(parse(text, { numbers: "string" })).toEqual({
+      id: "12345678901234567890",
+      safe: "9007199254740991",
+      price: "1.50",
+      neg: "-9007199254740993",
+    });
+    expect(parse("[+1, -Infinity]", { numbers: "string", syntax: "json5" })).toEqual(["+1", "-Infinity"]);
+  });
+
+  it("passes the source text to a custom conversion at every chunk split", () => {
+    const input = "[1.50, 2e3, 7]";
+    for (let i = 0; i <= input.length; i++) {
+      const parser = new IncrementalParser({ numbers: (raw) => ({ raw }) });
+      parser.feed(input.slice(0, i));
+      parser.feed(input.slice(i));
+      expect(parser.end()).toEqual([{ raw: "1.50" }, { raw: "2e3" }, { raw: "7" }]);
+    }
+  });
+
+  it("still rejects invalid numbers", () => {
+    expect(() => parse("[1-2]", { numbers: "string" })).toThrow("Invalid number 1-2");
+  });
+
+  it("reports the source text of numbers in value events", () => {
+    const events: JsonParseEvent[] = [];
+    const parser = new IncrementalParser({ numbers: "bigint", onEvent: (e) => events.push(e) });
+    parser.feed('[12345678901234567890, 1.50, "1.50", true]');
+    parser.end();
+    expect(events.filter((e) => e.type === "value")).toEqual([
+      { type: "value", value: BigInt("12345678901234567890"), raw: "12345678901234567890", path: "/0", offset: 1 },
+      { type: "value", value: 1.5, raw: "1.50", path: "/1", offset: 23 },
+      { type: "value", value: "1.50", path: "/2", offset: 29 },
+      { type: "value", value: true, path: "/3", offset: 37 },
+    ]);
+  });
+});
+
+describe("IncrementalParser revivers", () => {
+  const parseAtEverySplit = (text: string, options: IncrementalParserOptions) => {
+    const results: any[] = [];
+    for (let i = 0; i <= text.length; i++) {
+      const parser = new IncrementalParser(options);
+      parser.feed(text.slice(0, i));
+      parser.feed(text.slice(i));
+      results.push(parser.end());
+    }
+    return results;
+  };
+
+  it("calls the reviver innermost first with keys, paths and source text", () => {
+    const text = '{"a": [1.50, "x\\u0079"], "b": null}';
+    const expected = JSON.parse(text, function (key, value) {
+      return value;
+    });
+    for (let i = 0; i <= text.length; i++) {
+      const calls: any[] = [];
+      const parser = new IncrementalParser({
+        reviver: (key, value, context) => {
+          calls.push([key, context.path, context.rawText]);
+          return value;
+        },
+      });
+      parser.feed(text.slice(0, i));
+      parser.feed(text.slice(i));
+      expect(parser.end()).toEqual(expected);
+      expect(calls).toEqual([
+        ["0", "/a/0", "1.50"],
+        ["1", "/a/1", '"x\\u0079"'],
+        ["a", "/a", undefined],
+        ["b", "/b", "null"],
+        ["", "", undefined],
+      ]);
+    }
+  });
+
+  it("uses the reviver's result in snapshots and events and drops undefined members", () => {
+    const events: JsonParseEvent[] = [];
+    const parser = new IncrementalParser({
+      onEvent: (e) => events.push(e),
+      reviver: (key, value) => {
+        if (key === "secret") {
+          return undefined;
+        }
+        return typeof value === "number" ? value * 10 : value;
+      },
+    });
+    parser.feed('{"n": 1, "secret": "s", "list": [2, 3]}');
+    const updates = parser.collectUpdates();
+    expect(updates[updates.length - 1]).toEqual({ n: 10, list: [20, 30] });
+    expect(events.filter((e) => e.type === "value").map((e) => (e as any).value)).toEqual([10, undefined, 20, 30]);
+    expect(events.find((e) => e.type === "endArray")).toMatchObject({ value: [20, 30] });
+  });
+
+  it("builds containers with factories", () => {
+    class Point {
+      constructor(readonly x: unknown, readonly y: unknown) {}
+    }
+    const options: IncrementalParserOptions = {
+      createObject: (entries, { path }) =>
+        path.startsWith("/points/") ? new Point(entries[0][1], entries[1][1]) : new Map(entries),
+      createArray: (items) => new Set(items),
+    };
+    for (const result of parseAtEverySplit('{"points": [{"x": 1, "y": 2}], "tags": ["a", "a"]}', options)) {
+      expect(result).toEqual(
+        new Map<string, unknown>([
+          ["points", new Set([new Point(1, 2)])],
+          ["tags", new Set(["a"])],
+        ])
+      );
+      expect([...(result as Map<string, Set<unknown>>).get("points")!][0]).toBeInstanceOf(Point);
+    }
+  });
+
+  it("builds null-prototype objects with a factory", () => {
+    const parser = new IncrementalParser({
+      createObject: (entries) => Object.assign(Object.create(null), Object.fromEntries(entries)),
+    });
+    parser.feed('{"a": {"b": 1}}');
+    const result = parser.end();
+    expect(Object.getPrototypeOf(result)).toBeNull();
+    expect(Object.getPrototypeOf(result.a)).toBeNull();
+    expect(result.a.b).toBe(1);
+  });
+
+  it("converts ISO date strings at the given pointers", () => {
+    const text = '{"created": "2024-05-01T12:00:00Z", "events": [{"at": "2024-05-02"}, {"at": "soon"}], "note": "2024-05-03"}';
+    for (const result of parseAtEverySplit(text, { dates: ["/created", "/events/*/at"] })) {
+      expect(result).toEqual({
+        created: new Date("2024-05-01T12:00:00Z"),
+        events: [{ at: new Date("2024-05-02") }, { at: "soon" }],
+        note: "2024-05-03",
+      });
+    }
+  });
+
+  it("passes converted dates and numbers to the reviver", () => {
+    const seen: unknown[] = [];
+    const parser = new IncrementalParser({
+      numbers: "string",
+      dates: ["/0"],
+      reviver: (_key, value) => {
+        seen.push(value);
+        return value;
+      },
+    });
+    parser.feed('["2024-05-01", 1.0]');
+    parser.end();
+    expect(seen.slice(0, 2)).toEqual([new Date("2024-05-01"), "1.0"]);
+  });
+});
+
+describe("IncrementalParser object safety", () => {
+  const parseAtEverySplit = (text: string, options: IncrementalParserOptions = {}) => {
+    const results: any[] = [];
+    for (let i = 0; i <= text.length; i++) {
+      const parser = new IncrementalParser(options);
+      parser.feed(text.slice(0, i));
+      parser.feed(text.slice(i));
+      results.push(parser.end());
+    }
+    return results;
+  };
+
+  it("stores __proto__ keys as own properties", () => {
+    const text = '{"__proto__": {"polluted": true}, "a": {"__proto__": [1]}}';
+    for (const result of parseAtEverySplit(text)) {
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+      expect(Object.getPrototypeOf(result.a)).toBe(Object.prototype);
+      expect(Object.keys(result)).toEqual(["__proto__", "a"]);
+      expect(Object.getOwnPropertyDescriptor(result, "__proto__")?.value).toEqual({ polluted: true });
+      expect(result.polluted).toBeUndefined();
+      expect(({} as any).polluted).toBeUndefined();
+    }
+  });
+
+  it("keeps __proto__ keys as data in snapshots taken while the object grows", () => {
+    const parser = new IncrementalParser({ partialStrings: true });
+    parser.feed('{"__proto__": {"x": "par');
+    parser.feed('tial"}, "b": 1}');
+    for (const update of parser.collectUpdates()) {
+      expect(Object.getPrototypeOf(update)).toBe(Object.prototype);
+    }
+    expect(parser.end()).toEqual(JSON.parse('{"__proto__": {"x": "partial"}, "b": 1}'));
+  });
+
+  it("creates objects without a prototype with nullPrototype", () => {
+    for (const result of parseAtEverySplit('{"constructor": 1, "a": {"__proto__": 2}}', { nullPrototype: true })) {
+      expect(Object.getPrototypeOf(result)).toBeNull();
+      expect(Object.getPrototypeOf(result.a)).toBeNull();
+      expect(result.constructor).toBe(1);
+      expect(result.a.__proto__).toBe(2);
+      expect(result.hasOwnProperty).toBeUndefined();
+    }
+  });
+
+  describe("duplicate keys", () => {
+    const text = '{"a": 1, "b": {"c": [1]}, "a": 2, "b": {"c": [2], "d": "x"}}';
+
+    it("keeps the last value by default", () => {
+      for (const result of parseAtEverySplit(text)) {
+        expect(result).toEqual(JSON.parse(text));
+      }
+    });
+
+    it("keeps the first value and ignores the others with first-wins", () => {
+      for (const result of parseAtEverySplit(text, { duplicateKeys: "first-wins" })) {
+        expect(result).toEqual({ a: 1, b: { c: [1] } });
+      }
+    });
+
+    it("emits no events for ignored members", () => {
+      const events: JsonParseEvent[] = [];
+      const parser = new IncrementalParser({
+        duplicateKeys: "first-wins",
+        buildTree: false,
+        onEvent: (e) => events.push(e),
+      });
+      parser.feed('{"a": 1, "a": {"b": [2]}, "c": 3}');
+      parser.end();
+      expect(events.map((e) => [e.type, e.path])).toEqual([
+        ["startObject", ""],
+        ["key", "/a"],
+        ["value", "/a"],
+        ["key", "/c"],
+        ["value", "/c"],
+        ["endObject", ""],
+      ]);
+    });
+
+    it("throws on the repeated key with error", () => {
+      const parser = new IncrementalParser({ duplicateKeys: "error" });
+      parser.feed('{"a": {"b": 1, "c": 2}, "d": 3, ');
+      try {
+        parser.feed('"d": 4}');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(JsonStreamParseError);
+        expect((error as JsonStreamParseError).code).toBe("DUPLICATE_KEY");
+        expect((error as JsonStreamParseError).message).toBe('Duplicate key "d" at line 1, column 35');
+      }
+    });
+
+    it("only compares keys within the same object", () => {
+      const result = parseAtEverySplit('[{"a": 1}, {"a": 2}]', { duplicateKeys: "error" });
+      expect(result[0]).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+  });
+});
+
+describe("IncrementalParser limits", () => {
+  const failAtEverySplit = (text: string, options: IncrementalParserOptions) => {
+    const errors: JsonStreamLimitError[] = [];
+    for (let i = 0; i <= text.length; i++) {
+      const parser = new IncrementalParser(options);
+      try {
+        parser.feed(text.slice(0, i));
+        parser.feed(text.slice(i));
+        parser.end();
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(JsonStreamLimitError);
+        errors.push(error as JsonStreamLimitError);
+      }
+    }
+    return errors;
+  };
+
+  it("accepts documents within every limit", () => {
+    const parser = new IncrementalParser({
+      limits: { maxDepth: 2, maxStringLength: 3, maxKeys: 2, maxArrayLength: 2, maxTotalBytes: 33 },
+    });
+    parser.feed('{"abc": [1, 2], "d": "€€€"}');
+    expect(parser.end()).toEqual({ abc: [1, 2], d: "€€€" });
+  });
+
+  it("rejects nesting deeper than maxDepth", () => {
+    for (const error of failAtEverySplit('{"a": [{"b": 1}]}', { limits: { maxDepth: 2 } })) {
+      expect(error.code).toBe("LIMIT_EXCEEDED");
+      expect(error.limit).toBe("maxDepth");
+      expect(error.max).toBe(2);
+      expect(error.pointer).toBe("/a");
+      expect(error.charOffset).toBe(7);
+      expect(error.message).toContain("maxDepth limit of 2 exceeded");
+    }
+  });
+
+  it("rejects strings, keys and numbers longer than maxStringLength", () => {
+    for (const error of failAtEverySplit('{"a": "abcdef"}', { limits: { maxStringLength: 4 } })) {
+      expect(error.limit).toBe("maxStringLength");
+      expect(error.pointer).toBe("");
+      expect(error.charOffset).toBe(11);
+    }
+    expect(failAtEverySplit('{"abcdef": 1}', { limits: { maxStringLength: 4 } })[0].charOffset).toBe(6);
+    expect(failAtEverySplit("[123456]", { limits: { maxStringLength: 4 } })[0].charOffset).toBe(5);
+  });
+
+  it("rejects objects with more than maxKeys members", () => {
+    for (const error of failAtEverySplit('{"x": {"a": 1, "b": 2, "c": 3}}', { limits: { maxKeys: 2 } })) {
+      expect(error.limit).toBe("maxKeys");
+      expect(error.pointer).toBe("/x");
+    }
+  });
+
+  it("rejects arrays with more than maxArrayLength items", () => {
+    for (const error of failAtEverySplit('{"list": [1, [], "x"]}', { limits: { maxArrayLength: 2 } })) {
+      expect(error.limit).toBe("maxArrayLength");
+      expect(error.pointer).toBe("/list");
+      expect(error.charOffset).toBe(17);
+    }
+  });
+
+  it("counts maxTotalBytes in UTF-8 bytes", () => {
+    for (const error of failAtEverySplit('["€€", 1]', { limits: { maxTotalBytes: 8 } })) {
+      expect(error.limit).toBe("maxTotalBytes");
+      expect(error.byteOffset).toBe(8);
+      expect(error.charOffset).toBe(4);
+    }
+  });
+
+  it("keeps memory bounded by maxTotalBytes on wide arrays", () => {
+    const text = "[" + new Array(600_000).fill("0").join(",");
+    const heapBefore = process.memoryUsage().heapUsed;
+    const parser = new IncrementalParser({ limits: { maxTotalBytes: 1_000_000 } });
+    parser.feed(text.slice(0, 900_000));
+    expect(parser.collectUpdates()).toHaveLength(1);
+    expect(() => parser.feed(text.slice(900_000))).toThrow(JsonStreamLimitError);
+    const growth = process.memoryUsage().heapUsed - heapBefore;
+    // The tree of a 1 MB input, not one copy of the array per element
+    expect(growth).toBeLessThan(100 * 1024 * 1024);
+  });
+
+  it("checks limits without building the tree", () => {
+    const parser = new IncrementalParser({ buildTree: false, limits: { maxArrayLength: 1 } });
+    expect(() => parser.feed("[1, 2]")).toThrow(JsonStreamLimitError);
+  });
+});
+
+describe("IncrementalParser checkpoints", () => {
+  /**
+   * Parses the text with a checkpoint taken after `split` characters, serialized
+   * to JSON and restored in a new parser fed with the rest
+   */
+  const resume = (text: string, split: number, options: IncrementalParserOptions = {}) => {
+    const first = new IncrementalParser(options);
+    first.feed(text.slice(0, split));
+    const checkpoint = JSON.parse(JSON.stringify(first.checkpoint()));
+    const second = new IncrementalParser(options);
+    second.restore(checkpoint);
+    second.feed(text.slice(split));
+    return { checkpoint, parser: second, value: second.end() };
+  };
+
+  it("resumes at every split", () => {
+    const text = '{"a": [1, -2.5e3, true, null], "b\\u00e9": {"c": "x\\"\\ud83d\\ude00y", "d": []}, "e": false}';
+    for (let i = 0; i <= text.length; i++) {
+      expect(resume(text, i).value).toEqual(JSON.parse(text));
+    }
+  });
+
+  it("records the byte offset to re-open the source at", () => {
+    const text = '{"name": "€uro", "n": 1}';
+    const { checkpoint } = resume(text, 14);
+    expect(checkpoint.offset).toBe(new TextEncoder().encode(text.slice(0, 14)).length);
+    expect(checkpoint.charOffset).toBe(14);
+  });
+
+  it("keeps the positions reported by errors", () => {
+    const first = new IncrementalParser();
+    first.feed('{\n  "a": [1,');
+    const parser = new IncrementalParser();
+    parser.restore(JSON.parse(JSON.stringify(first.checkpoint())));
+    try {
+      parser.feed(" }");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(JsonStreamParseError);
+      expect((error as JsonStreamParseError).line).toBe(2);
+      expect((error as JsonStreamParseError).column).toBe(12);
+      expect((error as JsonStreamParseError).pointer).toBe("/a");
+    }
+  });
+
+  it("saves values JSON cannot represent", () => {
+    const text = '{"big": 12345678901234567890, "at": "2024-01-02T03:04:05.000Z", "nan": NaN, "neg": -0, "inf": -Infinity, "rest": [';
+    const options: IncrementalParserOptions = { syntax: "json5", numbers: "bigint", dates: ["/at"] };
+    const { value } = resume(text + "1]}", text.length, options);
+    expect(value.big).toBe(BigInt("12345678901234567890"));
+    expect(value.at).toEqual(new Date("2024-01-02T03:04:05.000Z"));
+    expect(value.nan).toBeNaN();
+    expect(Object.is(value.neg, -0)).toBe(true);
+    expect(value.inf).toBe(-Infinity);
+    expect(value.rest).toEqual([1]);
+  });
+
+  it("restores __proto__ keys as data", () => {
+    const text = '{"__proto__": {"x": [1, 2]}, "y": 1}';
+    for (let i = 0; i <= text.length; i++) {
+      const { value } = resume(text, i);
+      expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+      expect(Object.getOwnPropertyDescriptor(value, "__proto__")?.value).toEqual({ x: [1, 2] });
+    }
+  });
+
+  it("keeps the duplicate key policy and ignored members", () => {
+    const text = '{"a": 1, "a": {"b": [2]}, "c": {"a": 3}}';
+    for (let i = 0; i <= text.length; i++) {
+      expect(resume(text, i, { duplicateKeys: "first-wins" }).value).toEqual({ a: 1, c: { a: 3 } });
+    }
+  });
+
+  it("keeps finished documents in multi-document mode", () => {
+    const text = '{"a": 1}\n[2, 3]\n"x"\n';
+    for (let i = 0; i <= text.length; i++) {
+      expect(resume(text, i, { multiDocument: true }).value).toEqual([{ a: 1 }, [2, 3], "x"]);
+    }
+  });
+
+  it("queues the restored value and its closed structures", () => {
+    const first = new IncrementalParser();
+    first.feed('{"done": {"x": 1}, "open": [');
+    const parser = new IncrementalParser();
+    parser.restore(first.checkpoint());
+    const [update] = parser.collectUpdates();
+    expect(update).toEqual({ done: { x: 1 }, open: [] });
+    expect(parser.collectClosedStructures()).toEqual([{ x: 1 }]);
+  });
+
+  it("queues the restored value without the open string first", () => {
+    const first = new IncrementalParser({ partialStrings: true });
+    first.feed('{"a": 1, "list": ["x", "par');
+    const parser = new IncrementalParser({ partialStrings: true });
+    parser.restore(first.checkpoint());
+    const updates = parser.collectUpdates();
+    expect(updates).toEqual([
+      { a: 1, list: ["x"] },
+      { a: 1, list: ["x", "par"] },
+    ]);
+    expect(getOpenStringPointer(updates[0])).toBeNull();
+    expect(getOpenStringPointer(updates[1])).toBe("/list/1");
+  });
+
+  it("resumes the events without building the tree", () => {
+    const text = '{"a": [1, "two"], "b": null}';
+    const collect = (split: number) => {
+      const events: JsonParseEvent[] = [];
+      const first = new IncrementalParser({ buildTree: false, onEvent: (e) => events.push(e) });
+      first.feed(text.slice(0, split));
+      const parser = new IncrementalParser({ buildTree: false, onEvent: (e) => events.push(e) });
+      parser.restore(first.checkpoint());
+      parser.feed(text.slice(split));
+      parser.end();
+      return events;
+    };
+    const expected = collect(text.length);
+    for (let i = 0; i <= text.length; i++) {
+      expect(collect(i)).toEqual(expected);
+    }
+  });
+
+  it("refuses values that cannot be saved", () => {
+    const parser = new IncrementalParser({ reviver: (key, value) => (key === "m" ? new Map() : value) });
+    parser.feed('{"m": 1, "n": ');
+    expect(() => parser.checkpoint()).toThrow('Cannot checkpoint the value at "/m"');
+  });
+});
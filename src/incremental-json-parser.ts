@@ -2,24 +2,313 @@
 // The parser processes a reader compatible with `ReadableStreamDefaultReader`
 // and returns an async generator yielding immutable snapshots of the parsed
 // JSON structure.
+//
+// Snapshots use structural sharing: at most one snapshot is taken per chunk,
+// and the first write after it copies only the containers on the path from
+// the root to the modified node, so untouched branches keep their identity
+// across snapshots. Once the open containers hold more items than bytes were
+// parsed since the last snapshot, the snapshot waits for more chunks, so that
+// wide arrays fed in small chunks are not copied in full for every chunk.
 
-import type { ContextType, ContextState, DeepPartial, ParserState } from './types';
-import { isWhitespace, isDigit, isNumberChar } from './utils/character-utils';
+import type {
+  ContextType,
+  ContextState,
+  DeepPartial,
+  JsonCheckpointContext,
+  JsonDuplicateKeyPolicy,
+  JsonParseEvent,
+  JsonNumberMode,
+  JsonParseEventHandler,
+  JsonParseLimit,
+  JsonParseLimits,
+  JsonParserCheckpoint,
+  JsonRepair,
+  JsonRepairHandler,
+  JsonRepairKind,
+  JsonReviver,
+  JsonSyntax,
+  JsonValueContext,
+  ParserState,
+} from './types';
+import {
+  isWhitespace,
+  isDigit,
+  isNumberChar,
+  isHexDigit,
+  isJson5Whitespace,
+  isIdentifierStart,
+  isIdentifierPart,
+  utf8ByteLength,
+} from './utils/character-utils';
 import { decodeStreamChunk, createStreamDecoder } from './utils/text-decoder';
-import { deepClone } from './utils/deep-clone';
-import { createParseError } from './utils/error-utils';
+import {
+  JsonStreamParseError,
+  JsonStreamLimitError,
+  type JsonStreamParseErrorCode,
+  type JsonStreamParseErrorDetails,
+} from './utils/error-utils';
+import { encodeJsonPointerSegment } from './utils/json-pointer';
+import { encodeCheckpointValue, decodeCheckpointValue } from './utils/checkpoint-values';
+import { JSONPointerParser } from './json-pointer-parser';
+import { abortable, createAbortError, getAbortReason, type CancelOptions } from './utils/abort';
+
+/**
+ * Options for controlling IncrementalParser behavior
+ */
+export interface IncrementalParserOptions {
+  /**
+   * Receives SAX-style events (startObject, key, value, ...) as tokens are parsed
+   */
+  onEvent?: JsonParseEventHandler;
+
+  /**
+   * Whether to build the parsed value tree and produce snapshots.
+   * Disable when only events are consumed to avoid materializing the document.
+   * @default true
+   */
+  buildTree?: boolean;
+
+  /**
+   * Whether to freeze every container in emitted snapshots so consumers
+   * cannot corrupt the parser state by mutating them.
+   * @default false
+   */
+  freezeSnapshots?: boolean;
+
+  /**
+   * Whether string values still being streamed appear in snapshots.
+   * The partial text of strings nested in objects or arrays is published
+   * after every fed chunk; use `getOpenStringPointer()` to find out which
+   * string is still open.
+   * @default false
+   */
+  partialStrings?: boolean;
+
+  /**
+   * Whether to enforce the full RFC 8259 grammar: number syntax (no leading
+   * zeros, digits required around "." and after "e"), no unescaped control
+   * characters in strings, no trailing commas and a single root value.
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Input dialect. "jsonc" adds comments and trailing commas, "json5" the
+   * rest of the JSON5 grammar. With `strict`, the RFC 8259 number rules
+   * only apply to "json" and "jsonc".
+   * @default "json"
+   */
+  syntax?: JsonSyntax;
+
+  /**
+   * Whether to recover from the mistakes LLMs commonly make instead of throwing:
+   * raw control characters in strings, Python literals, single-quoted strings,
+   * unquoted keys, missing colons and commas, repeated commas, mismatched or
+   * stray closing brackets, stray characters, words that are not
+   * literals (such as `undefined`), text after the root value and input truncated
+   * mid-value (`end()` closes whatever is still open).
+   * @default false
+   */
+  repair?: boolean;
+
+  /**
+   * Receives every repair applied in repair mode
+   */
+  onRepair?: JsonRepairHandler;
+
+  /**
+   * Whether the input is a sequence of top-level values (NDJSON, concatenated
+   * JSON or RFC 7464 JSON text sequences) instead of a single one.
+   * Each value is a separate document: paths are relative to its root, events
+   * carry its index and `end()` returns the array of kept documents.
+   * Record separators (U+001E) are treated as whitespace.
+   * @default false
+   */
+  multiDocument?: boolean;
+
+  /**
+   * Whether documents are kept once finished in multi-document mode, for `end()`
+   * and for replaying them to late consumers. Disable for long streams so that only
+   * the document being parsed stays in memory; `end()` then returns an empty array.
+   * @default true
+   */
+  keepDocuments?: boolean;
+
+  /**
+   * How numbers are converted: "number", "bigint" to keep integers beyond
+   * `Number.MAX_SAFE_INTEGER` exact, "string" to keep the source text, or a
+   * function receiving the source text (e.g. to build a decimal type).
+   * Value events carry the source text of every number in `raw`.
+   * @default "number"
+   */
+  numbers?: JsonNumberMode;
+
+  /**
+   * Called with every value once it is complete, innermost values first like
+   * the reviver of `JSON.parse`. The returned value replaces it in snapshots
+   * and events; `undefined` removes an object member. Objects and arrays are
+   * only revived when the tree is built, and appear unrevived in snapshots
+   * taken while they are still open.
+   */
+  reviver?: JsonReviver;
+
+  /**
+   * Builds the value of every object when it closes, before the reviver sees it,
+   * e.g. `(entries) => new Map(entries)` or a class instance
+   */
+  createObject?: (entries: [string, unknown][], context: JsonValueContext) => unknown;
+
+  /**
+   * Builds the value of every array when it closes, before the reviver sees it
+   */
+  createArray?: (items: unknown[], context: JsonValueContext) => unknown;
+
+  /**
+   * JSON Pointers (wildcards allowed) of ISO 8601 date strings to convert to
+   * `Date` objects, before the reviver sees them. Strings that are not valid
+   * dates are left as they are.
+   */
+  dates?: string[];
+
+  /**
+   * Whether objects are created without a prototype, so that keys such as
+   * "constructor" or "hasOwnProperty" never resolve to inherited members.
+   * Either way keys are stored as own properties: a "__proto__" key never
+   * changes the prototype of the object it appears in.
+   * @default false
+   */
+  nullPrototype?: boolean;
+
+  /**
+   * What to do when an object repeats a key: keep the last value (like
+   * `JSON.parse`), keep the first one and ignore the others, or throw.
+   * Ignored members produce no events.
+   * @default "last-wins"
+   */
+  duplicateKeys?: JsonDuplicateKeyPolicy;
+
+  /**
+   * Resource limits enforced while tokenizing, to guard against hostile streams.
+   * `maxSSEMessageBytes` only applies to the SSE helpers.
+   */
+  limits?: JsonParseLimits;
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/** Number of characters kept on each side of an error position for its snippet */
+const SNIPPET_RADIUS = 20;
+
+/** Total length of the open containers up to which every chunk gets a snapshot */
+const SNAPSHOT_COPY_THRESHOLD = 1024;
+
+/** A complete RFC 8259 number */
+const STRICT_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/** Text that can still be extended into a complete RFC 8259 number */
+const STRICT_NUMBER_PREFIX = /^-?(?:(?:0|[1-9]\d*)(?:\.\d*|(?:\.\d+)?(?:[eE][+-]?\d*)?))?$/;
+
+/** An ISO 8601 date, optionally with a time and offset */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** An integer number token, which may be beyond the safe integer range */
+const INTEGER_NUMBER = /^[+-]?(?:\d+|0[xX][\da-fA-F]+)$/;
+
+const JSON5_ESCAPES: Record<string, string> = {
+  ...SIMPLE_ESCAPES,
+  "'": "'",
+  v: "\v",
+  "0": "\0",
+  // Line continuations
+  "\n": "",
+  "\r": "",
+  "\u2028": "",
+  "\u2029": "",
+};
+
+const JSON_LITERALS: Record<string, boolean | number | null> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+const JSON5_LITERALS: Record<string, boolean | number | null> = {
+  ...JSON_LITERALS,
+  Infinity: Infinity,
+  "+Infinity": Infinity,
+  "-Infinity": -Infinity,
+  NaN: NaN,
+  "+NaN": NaN,
+  "-NaN": NaN,
+};
+
+const PYTHON_LITERALS: Record<string, boolean | null> = {
+  True: true,
+  False: false,
+  None: null,
+};
+
+/** Record separator framing each text of an RFC 7464 JSON text sequence */
+const RECORD_SEPARATOR = "\u001e";
+
+const openStringPointers = new WeakMap<object, string>();
+
+/**
+ * Returns the JSON Pointer of the string value that was still being streamed
+ * when the given snapshot was taken, or null if all strings in it are closed.
+ * Only snapshots produced with the `partialStrings` option carry this marker.
+ */
+export function getOpenStringPointer(snapshot: unknown): string | null {
+  if (snapshot === null || typeof snapshot !== "object") {
+    return null;
+  }
+  return openStringPointers.get(snapshot) ?? null;
+}
 
 class ParserContext {
   type: ContextType;
   value: any;
   key: string | undefined;
   state: ContextState;
+  path: string;
+  length: number;
+  parentKey: string | number | undefined;
+  /** Whether the container belongs to a member ignored by the "first-wins" duplicate key policy */
+  ignored: boolean;
+  /** Whether the value of the current key is ignored by the "first-wins" duplicate key policy */
+  ignoreValue: boolean;
+  /** Keys seen so far, when duplicate keys are checked */
+  keys: Set<string> | null;
+  /** Whether `value` is part of an emitted snapshot and must be copied before the next write */
+  shared: boolean;
 
-  constructor(type: ContextType, value: any) {
+  constructor(
+    type: ContextType,
+    value: any,
+    path: string,
+    parentKey: string | number | undefined,
+    ignored = false
+  ) {
     this.type = type;
     this.value = value;
     this.key = undefined;
     this.state = type === "object" ? "expectKeyOrEnd" : "expectValueOrEnd";
+    this.path = path;
+    this.length = 0;
+    this.parentKey = parentKey;
+    this.ignored = ignored;
+    this.ignoreValue = false;
+    this.keys = null;
+    this.shared = false;
   }
 }
 
@@ -30,269 +319,1491 @@ export class IncrementalParser {
   state: ParserState = "default";
   token = "";
   escape = false;
+  unicode: string | null = null;
+  /** Number of hex digits of the escape collected in `unicode` */
+  unicodeLength = 4;
+  /** Quote character that opened the current string */
+  quote = '"';
+  /** Whether a JSON5 line continuation ended with "\r" (a following "\n" belongs to it) */
+  continuation = false;
+  /** Source text of the open string consumed by previous feeds (only kept for the reviver) */
+  rawString = "";
+  /** Index in `buffer` where the open string starts */
+  stringStart = 0;
   updates: any[] = [];
+  /** Document index of each entry of `updates` in multi-document mode */
+  updateDocuments: number[] = [];
   closedStructures: any[] = [];
+  /** Structures closed since the last snapshot, reported once a snapshot includes them */
+  private closingStructures: any[] = [];
+  /** Index of the document being parsed in multi-document mode */
+  document = 0;
+  /** Documents parsed completely so far in multi-document mode */
+  documents: any[] = [];
+  offset = 0;
+  tokenOffset = 0;
+  charOffset = 0;
+  line = 1;
+  lineStart = 0;
+  /** Index in `buffer` of the character being processed */
+  cursor = 0;
+  /** Tail of the input consumed by previous feeds, for error snippets */
+  recent = "";
+  private onEvent: JsonParseEventHandler | undefined;
+  private buildTree: boolean;
+  private freezeSnapshots: boolean;
+  private partialStrings: boolean;
+  private strict: boolean;
+  private syntax: JsonSyntax;
+  private repair: boolean;
+  private onRepair: JsonRepairHandler | undefined;
+  private multiDocument: boolean;
+  private keepDocuments: boolean;
+  private numbers: JsonNumberMode;
+  private reviver: JsonReviver | undefined;
+  private createObject: IncrementalParserOptions["createObject"];
+  private createArray: IncrementalParserOptions["createArray"];
+  private datePointers: JSONPointerParser[];
+  private nullPrototype: boolean;
+  private duplicateKeys: JsonDuplicateKeyPolicy;
+  private maxDepth: number;
+  private maxStringLength: number;
+  private maxKeys: number;
+  private maxArrayLength: number;
+  private maxTotalBytes: number;
+  /** Literal words accepted in value position, with their values */
+  private literals: Record<string, boolean | number | null>;
+  /** First characters of the unsigned literal words */
+  private literalStarts: Set<string>;
+  private publishedPartial: string | null = null;
+  /** JSON Pointer of the partial string stored in the tree, marked on the snapshots taken meanwhile */
+  private openStringPointer: string | null = null;
+  /** Whether a complete top-level value has been parsed */
+  private rootClosed = false;
+  /** Byte offset of the text skipped after the root value in repair mode, or -1 */
+  private trailingTextOffset = -1;
+  /** Number of bytes from `trailingTextOffset` to the end of its last word */
+  private trailingTextLength = 0;
+  /** Whether the tree changed since the last snapshot was queued */
+  private pendingUpdate = false;
+  /** Byte offset of the input when the last snapshot was queued */
+  private snapshotOffset = 0;
+
+  constructor(options: IncrementalParserOptions = {}) {
+    this.onEvent = options.onEvent;
+    this.buildTree = options.buildTree ?? true;
+    this.freezeSnapshots = options.freezeSnapshots ?? false;
+    this.partialStrings = options.partialStrings ?? false;
+    this.strict = options.strict ?? false;
+    this.syntax = options.syntax ?? "json";
+    this.repair = options.repair ?? false;
+    this.onRepair = options.onRepair;
+    this.multiDocument = options.multiDocument ?? false;
+    this.keepDocuments = options.keepDocuments ?? true;
+    this.numbers = options.numbers ?? "number";
+    this.reviver = options.reviver;
+    this.createObject = options.createObject;
+    this.createArray = options.createArray;
+    this.datePointers = (options.dates ?? []).map((pointer) => new JSONPointerParser(pointer));
+    this.nullPrototype = options.nullPrototype ?? false;
+    this.duplicateKeys = options.duplicateKeys ?? "last-wins";
+    const limits = options.limits ?? {};
+    this.maxDepth = limits.maxDepth ?? Infinity;
+    this.maxStringLength = limits.maxStringLength ?? Infinity;
+    this.maxKeys = limits.maxKeys ?? Infinity;
+    this.maxArrayLength = limits.maxArrayLength ?? Infinity;
+    this.maxTotalBytes = limits.maxTotalBytes ?? Infinity;
+    this.literals = {
+      ...(this.syntax === "json5" ? JSON5_LITERALS : JSON_LITERALS),
+      ...(this.repair ? PYTHON_LITERALS : {}),
+    };
+    this.literalStarts = new Set(
+      Object.keys(this.literals)
+        .map((literal) => literal[0])
+        .filter((first) => first !== "+" && first !== "-")
+    );
+  }
 
   feed(chunk: string): void {
     this.buffer += chunk;
     let i = 0;
     while (i < this.buffer.length) {
       const ch = this.buffer[i];
-      switch (this.state) {
-        case "default":
-          if (isWhitespace(ch)) {
-            i++;
-            break;
+      this.cursor = i;
+      const bytes = utf8ByteLength(ch);
+      if (this.offset + bytes > this.maxTotalBytes) {
+        throw this._limitError("maxTotalBytes", this.maxTotalBytes);
+      }
+      if (this._step(ch)) {
+        if (this.token.length > this.maxStringLength) {
+          throw this._limitError("maxStringLength", this.maxStringLength);
+        }
+        this.offset += bytes;
+        this.charOffset++;
+        if (ch === "\n") {
+          this.line++;
+          this.lineStart = this.charOffset;
+        }
+        i++;
+      }
+    }
+    if (this.state === "string" && this.reviver) {
+      this.rawString += this.buffer.slice(this.stringStart, i);
+      this.stringStart = 0;
+    }
+    this.recent = (this.recent + this.buffer.slice(Math.max(0, i - SNIPPET_RADIUS), i)).slice(-SNIPPET_RADIUS);
+    this.buffer = this.buffer.slice(i);
+    this.cursor = 0;
+    // The complete values of the chunk are queued before the open string
+    this._flushUpdate();
+    if (this.state === "string" && this.partialStrings && this.buildTree) {
+      this._publishPartialString();
+      this._flushUpdate();
+    }
+  }
+
+  /**
+   * Processes a single character.
+   * Returns false when the character must be retried in the new state.
+   */
+  _step(ch: string): boolean {
+    switch (this.state) {
+      case "default":
+        if (
+          isWhitespace(ch) ||
+          (this.syntax === "json5" && isJson5Whitespace(ch)) ||
+          (this.multiDocument && ch === RECORD_SEPARATOR)
+        ) {
+          return true;
+        }
+        if (
+          this.repair &&
+          this.rootClosed &&
+          !this.multiDocument &&
+          (this.trailingTextOffset >= 0 || (ch !== "}" && ch !== "]"))
+        ) {
+          // Text after the root value, such as prose following the JSON, reported once by end()
+          if (this.trailingTextOffset < 0) {
+            this.trailingTextOffset = this.offset;
           }
-          if (ch === "{") {
-            const obj = {};
-            this._pushValue(obj);
-            this.stack.push(new ParserContext("object", obj));
-            i++;
-            break;
+          this.trailingTextLength = this.offset + utf8ByteLength(ch) - this.trailingTextOffset;
+          return true;
+        }
+        if (ch === "/" && this.syntax !== "json") {
+          this.state = "comment";
+          this.token = ch;
+          return true;
+        }
+        if (this.repair && this._isMissingComma(ch)) {
+          const ctx = this.stack[this.stack.length - 1];
+          this._applyRepair("insertComma", ctx.path);
+          this._comma();
+        }
+        if (this.repair && this._isMissingColon(ch)) {
+          this._applyRepair("insertColon", this._nextValuePath());
+          this._colon();
+        }
+        if (ch === "{") {
+          this._checkValueStart();
+          if (this.stack.length >= this.maxDepth) {
+            throw this._limitError("maxDepth", this.maxDepth);
           }
-          if (ch === "[") {
-            const arr: any[] = [];
-            this._pushValue(arr);
-            this.stack.push(new ParserContext("array", arr));
-            i++;
-            break;
+          const key = this._nextValueKey();
+          const path = this._nextValuePath();
+          const ignored = this._isIgnoredValue();
+          const obj = this.nullPrototype ? Object.create(null) : {};
+          this._pushValue(obj);
+          const ctx = new ParserContext("object", obj, path, key, ignored);
+          if (this.duplicateKeys !== "last-wins") {
+            ctx.keys = new Set();
           }
-          if (ch === "}" || ch === "]") {
-            this._closeStructure(ch);
-            i++;
-            break;
+          this.stack.push(ctx);
+          if (!ignored) {
+            this._emit({ type: "startObject", path, offset: this.offset });
           }
-          if (ch === ",") {
-            this._comma();
-            i++;
-            break;
+          return true;
+        }
+        if (ch === "[") {
+          this._checkValueStart();
+          if (this.stack.length >= this.maxDepth) {
+            throw this._limitError("maxDepth", this.maxDepth);
           }
-          if (ch === ":") {
-            this._colon();
-            i++;
-            break;
+          const key = this._nextValueKey();
+          const path = this._nextValuePath();
+          const ignored = this._isIgnoredValue();
+          const arr: any[] = [];
+          this._pushValue(arr);
+          this.stack.push(new ParserContext("array", arr, path, key, ignored));
+          if (!ignored) {
+            this._emit({ type: "startArray", path, offset: this.offset });
           }
-          if (ch === '"') {
-            this.state = "string";
-            this.token = "";
-            i++;
-            break;
+          return true;
+        }
+        if (ch === "}" || ch === "]") {
+          this._closeStructure(ch);
+          return true;
+        }
+        if (ch === ",") {
+          this._comma();
+          return true;
+        }
+        if (ch === ":") {
+          this._colon();
+          return true;
+        }
+        if (ch === '"' || (ch === "'" && (this.syntax === "json5" || this.repair))) {
+          if (!this._expectsKey()) {
+            this._checkValueStart();
           }
-          if (ch === "-" || isDigit(ch)) {
-            this.state = "number";
-            this.token = ch;
-            i++;
-            break;
+          if (ch === "'" && this.syntax !== "json5") {
+            this._applyRepair("singleQuotedString", this._currentPointer());
           }
-          if (ch === "t" || ch === "f" || ch === "n") {
-            this.state = "literal";
-            this.token = ch;
-            i++;
-            break;
+          this.state = "string";
+          this.quote = ch;
+          this.token = "";
+          this.tokenOffset = this.offset;
+          this.rawString = "";
+          this.stringStart = this.cursor;
+          return true;
+        }
+        if ((this.syntax === "json5" || this.repair) && this._expectsKey() && isIdentifierStart(ch)) {
+          if (this.syntax !== "json5") {
+            this._applyRepair("quoteKey", this._currentPointer());
           }
-          throw createParseError("Unexpected token " + ch);
-        case "string":
-          if (this.escape) {
-            this.token += ch;
-            this.escape = false;
-            i++;
-            break;
+          this.state = "identifier";
+          this.token = ch;
+          this.tokenOffset = this.offset;
+          return true;
+        }
+        if (
+          ch === "-" ||
+          isDigit(ch) ||
+          (this.syntax === "json5" && (ch === "+" || ch === "."))
+        ) {
+          this._checkValueStart();
+          this.state = "number";
+          this.token = ch;
+          this.tokenOffset = this.offset;
+          return true;
+        }
+        if (this.literalStarts.has(ch)) {
+          this._checkValueStart();
+          this.state = "literal";
+          this.token = ch;
+          this.tokenOffset = this.offset;
+          return true;
+        }
+        if (this.repair) {
+          this._applyRepair("skipCharacter", this._currentPointer());
+          return true;
+        }
+        throw this._error("UNEXPECTED_TOKEN", "Unexpected token " + ch);
+      case "string":
+        if (this.continuation) {
+          this.continuation = false;
+          if (ch === "\n") {
+            return true;
           }
-          if (ch === "\\") {
-            this.escape = true;
-            i++;
-            break;
+        }
+        if (this.unicode !== null) {
+          if (!/[0-9a-fA-F]/.test(ch)) {
+            throw this._error("INVALID_UNICODE_ESCAPE", "Invalid unicode escape");
           }
-          if (ch === '"') {
-            const value = JSON.parse('"' + this.token + '"');
-            this._pushValue(value);
-            this.state = "default";
-            this.token = "";
-            i++;
-            break;
+          this.unicode += ch;
+          if (this.unicode.length === this.unicodeLength) {
+            this.token += String.fromCharCode(parseInt(this.unicode, 16));
+            this.unicode = null;
           }
-          this.token += ch;
-          i++;
-          break;
-        case "number":
-          if (isNumberChar(ch)) {
-            this.token += ch;
-            i++;
-            break;
+          return true;
+        }
+        if (this.escape) {
+          this.escape = false;
+          if (ch === "u" || (ch === "x" && this.syntax === "json5")) {
+            this.unicode = "";
+            this.unicodeLength = ch === "u" ? 4 : 2;
+            return true;
+          }
+          this.token += this._unescape(ch);
+          this.continuation = ch === "\r" && this.syntax === "json5";
+          return true;
+        }
+        if (ch === "\\") {
+          this.escape = true;
+          return true;
+        }
+        if (ch < " ") {
+          if (this.repair) {
+            this._applyRepair("escapeControlCharacter", this._currentPointer());
+          } else if (this.strict) {
+            throw this._error("INVALID_STRING_CHARACTER", "Unescaped control character in string");
           }
-          this._pushValue(Number(this.token));
+        }
+        if (ch === this.quote) {
+          const value = this.token;
           this.state = "default";
           this.token = "";
-          // retry this character in default state
-          continue;
-        case "literal":
+          this.publishedPartial = null;
+          this.openStringPointer = null;
+          if (this._expectsKey()) {
+            this._pushKey(value);
+          } else {
+            const rawText = this.reviver ? this.rawString + this.buffer.slice(this.stringStart, this.cursor + 1) : undefined;
+            this._pushPrimitive(value, rawText);
+          }
+          return true;
+        }
+        this.token += ch;
+        return true;
+      case "number":
+        if (this.syntax === "json5") {
+          if ((this.token === "-" || this.token === "+") && (ch === "I" || ch === "N")) {
+            // Signed Infinity or NaN
+            this.state = "literal";
+            this.token += ch;
+            return true;
+          }
+          if (/^[+-]?0[xX]/.test(this.token) ? isHexDigit(ch) : /^[+-]?0$/.test(this.token) && (ch === "x" || ch === "X")) {
+            this.token += ch;
+            return true;
+          }
+        }
+        if (isNumberChar(ch)) {
+          if (this.strict && this.syntax !== "json5" && !STRICT_NUMBER_PREFIX.test(this.token + ch)) {
+            throw this._error("INVALID_NUMBER", "Invalid number " + this.token + ch);
+          }
           this.token += ch;
-          i++;
-          if (this.token === "true") {
-            this._pushValue(true);
-            this.state = "default";
-            this.token = "";
-            break;
+          return true;
+        }
+        this._flushNumber();
+        // retry this character in default state
+        return false;
+      case "literal": {
+        const token = this.token + ch;
+        const literals = this.literals;
+        // Own keys only, so that words like "toString" are not literals
+        if (Object.prototype.hasOwnProperty.call(literals, token)) {
+          if (Object.prototype.hasOwnProperty.call(PYTHON_LITERALS, token)) {
+            this._applyRepair("pythonLiteral", this._nextValuePath());
           }
-          if (this.token === "false") {
-            this._pushValue(false);
-            this.state = "default";
-            this.token = "";
-            break;
+          this.token = token;
+          this._finishLiteral(token);
+          return true;
+        }
+        for (const literal in literals) {
+          if (literal.startsWith(token)) {
+            this.token = token;
+            return true; // still pending
           }
-          if (this.token === "null") {
-            this._pushValue(null);
+        }
+        if (!this.repair) {
+          throw this._error("UNEXPECTED_TOKEN", "Unexpected token " + token);
+        }
+        if (isIdentifierPart(ch)) {
+          // The rest of the word, as in "undefined" or "NaN", is dropped with it
+          this.token = token;
+          return true;
+        }
+        this._applyRepair("dropIncompleteValue", this._nextValuePath());
+        this.state = "default";
+        this.token = "";
+        // retry this character in default state
+        return false;
+      }
+      case "identifier":
+        if (isIdentifierPart(ch)) {
+          this.token += ch;
+          return true;
+        }
+        this.state = "default";
+        this._pushKey(this.token);
+        this.token = "";
+        // retry this character in default state
+        return false;
+      case "comment":
+        if (this.token === "/") {
+          if (ch !== "/" && ch !== "*") {
+            throw this._error("UNEXPECTED_TOKEN", "Unexpected token /");
+          }
+          this.token += ch;
+          return true;
+        }
+        if (this.token === "//") {
+          if (ch === "\n") {
             this.state = "default";
             this.token = "";
-            break;
           }
-          if (
-            "true".startsWith(this.token) ||
-            "false".startsWith(this.token) ||
-            "null".startsWith(this.token)
-          ) {
-            break; // still pending
-          }
-          throw createParseError("Unexpected token " + this.token);
+          return true;
+        }
+        // Block comment: the token ends with "*" when the previous character was one
+        if (ch === "/" && this.token === "/**") {
+          this.state = "default";
+          this.token = "";
+          return true;
+        }
+        this.token = ch === "*" ? "/**" : "/*";
+        return true;
+    }
+  }
+
+  /**
+   * Decodes the character following a backslash in a string
+   */
+  _unescape(ch: string): string {
+    if (this.syntax !== "json5") {
+      if (ch === "'" && this.quote === "'") {
+        // Single-quoted strings are only read in repair mode
+        return ch;
+      }
+      if (!(ch in SIMPLE_ESCAPES)) {
+        throw this._error("INVALID_ESCAPE", "Invalid escape character " + ch);
       }
+      return SIMPLE_ESCAPES[ch];
     }
-    this.buffer = this.buffer.slice(i);
+    if (ch in JSON5_ESCAPES) {
+      return JSON5_ESCAPES[ch];
+    }
+    if (isDigit(ch)) {
+      throw this._error("INVALID_ESCAPE", "Invalid escape character " + ch);
+    }
+    // Any other character escapes itself
+    return ch;
   }
 
   end(): any {
-    if (
-      this.state === "string" ||
-      this.state === "number" ||
-      this.state === "literal"
-    ) {
-      throw createParseError("Unexpected end of JSON input");
+    if (this.repair) {
+      this._repairTruncation();
+      if (this.trailingTextOffset >= 0) {
+        this._applyRepair("skipTrailingText", "", this.trailingTextOffset, this.trailingTextLength);
+      }
+    }
+    if (this.state === "number") {
+      this._flushNumber();
+    }
+    if (this.state === "comment" && this.token === "//") {
+      this.state = "default";
+      this.token = "";
+    }
+    if (this.state === "comment" || this.state === "identifier") {
+      throw this._error("UNEXPECTED_END", "Unexpected end of JSON input");
+    }
+    if (this.state === "string" || this.state === "literal") {
+      throw this._error("UNEXPECTED_END", "Unexpected end of JSON input");
     }
     if (this.stack.length !== 0) {
-      throw createParseError("Unexpected end of JSON input");
+      throw this._error("UNEXPECTED_END", "Unexpected end of JSON input");
+    }
+    this._flushUpdate();
+    if (this.multiDocument) {
+      return this.documents;
+    }
+    if (this.strict && !this.rootClosed) {
+      throw this._error("UNEXPECTED_END", "Unexpected end of JSON input");
     }
     return this.root;
   }
 
+  _flushNumber(): void {
+    const value = this._numberValue(this.token);
+    if (!this._isValidNumber(this.token, value)) {
+      throw this._error("INVALID_NUMBER", "Invalid number " + this.token);
+    }
+    const raw = this.token;
+    this.state = "default";
+    this.token = "";
+    this._pushNumber(raw, value);
+  }
+
+  _isValidNumber(token: string, value: number): boolean {
+    const checkGrammar = this.strict && this.syntax !== "json5";
+    return !Number.isNaN(value) && (!checkGrammar || STRICT_NUMBER.test(token));
+  }
+
+  _numberValue(token: string): number {
+    if (this.syntax === "json5" && /^[+-]?0[xX]/.test(token)) {
+      // Number() does not accept signed hexadecimal literals
+      const value = Number(token.replace(/^[+-]/, ""));
+      return token.startsWith("-") ? -value : value;
+    }
+    return Number(token);
+  }
+
+  _finishLiteral(literal: string): void {
+    const value = this.literals[literal];
+    this.state = "default";
+    this.token = "";
+    if (typeof value === "number") {
+      this._pushNumber(literal, value);
+    } else {
+      this._pushPrimitive(value, literal);
+    }
+  }
+
+  /**
+   * Converts a number token as configured by the `numbers` option and stores it
+   */
+  _pushNumber(raw: string, value: number): void {
+    const numbers = this.numbers;
+    if (typeof numbers === "function") {
+      this._pushPrimitive(numbers(raw), raw, true);
+    } else if (numbers === "string") {
+      this._pushPrimitive(raw, raw, true);
+    } else if (numbers === "bigint" && !Number.isSafeInteger(value) && INTEGER_NUMBER.test(raw)) {
+      // BigInt() does not accept signed hexadecimal literals
+      const magnitude = BigInt(raw.replace(/^[+-]/, ""));
+      this._pushPrimitive(raw.startsWith("-") ? -magnitude : magnitude, raw, true);
+    } else {
+      this._pushPrimitive(value, raw, true);
+    }
+  }
+
+  /**
+   * Stores a completed primitive after the `dates` conversion and the reviver
+   * @param rawText - Source text of the token, when known
+   * @param isNumber - Whether the value event reports the source text as `raw`
+   */
+  _pushPrimitive(value: unknown, rawText?: string, isNumber = false): void {
+    if (this._isIgnoredValue()) {
+      this._pushValue(value);
+      return;
+    }
+    const path = this._nextValuePath();
+    const key = this._nextValueKey();
+    const topLevel = this.stack.length === 0;
+    const revived = this._revive(value, key === undefined ? "" : String(key), path, rawText);
+    this._pushValue(revived);
+    if (this.buildTree && revived !== null && typeof revived === "object") {
+      // Lets consumers tell completed objects such as dates from open structures
+      this.closingStructures.push(revived);
+    }
+    if (topLevel) {
+      this._closeDocument();
+    }
+    if (isNumber) {
+      this._emit({ type: "value", value: revived, raw: rawText, path, offset: this.tokenOffset });
+    } else {
+      this._emit({ type: "value", value: revived, path, offset: this.tokenOffset });
+    }
+  }
+
+  /**
+   * Applies the `dates` conversion and the reviver to a completed value
+   */
+  _revive(value: unknown, key: string, path: string, rawText?: string): unknown {
+    if (typeof value === "string" && this.datePointers.length > 0 && ISO_DATE.test(value)) {
+      const isArrayIndex = (depth: number) => this.stack[depth]?.type === "array";
+      if (this.datePointers.some((pointer) => pointer.matchesPath(path, isArrayIndex))) {
+        const date = new Date(value);
+        if (!Number.isNaN(date.getTime())) {
+          value = date;
+        }
+      }
+    }
+    if (!this.reviver) {
+      return value;
+    }
+    return this.reviver(key, value, rawText === undefined ? { path } : { path, rawText });
+  }
+
+  /**
+   * Turns a closed object or array into its final value with the container
+   * factories and the reviver
+   */
+  _reviveContainer(ctx: ParserContext, container: any): unknown {
+    const context = { path: ctx.path };
+    let value: unknown = container;
+    if (ctx.type === "object" && this.createObject) {
+      value = this.createObject(Object.entries(container), context);
+    } else if (ctx.type === "array" && this.createArray) {
+      value = this.createArray(container, context);
+    }
+    const key = ctx.parentKey === undefined ? "" : String(ctx.parentKey);
+    return this._revive(value, key, ctx.path);
+  }
+
+  /**
+   * Stores the text decoded so far of the open string value in the tree
+   * without completing it
+   */
+  _publishPartialString(): void {
+    if (this.stack.length === 0 || this._expectsKey() || this._isIgnoredValue()) {
+      return;
+    }
+    let text = this.token;
+    const last = text.charCodeAt(text.length - 1);
+    if (last >= 0xd800 && last <= 0xdbff) {
+      // Wait for the low surrogate instead of exposing half a character
+      text = text.slice(0, -1);
+    }
+    if (text === this.publishedPartial) {
+      return;
+    }
+    this.publishedPartial = text;
+    const ctx = this.stack[this.stack.length - 1];
+    if (ctx.type === "array") {
+      if (ctx.state !== "expectValue" && ctx.state !== "expectValueOrEnd") {
+        return;
+      }
+      this._setChild(ctx, ctx.length, text);
+    } else {
+      if (ctx.state !== "expectValue" || ctx.key === undefined) {
+        return;
+      }
+      this._setChild(ctx, ctx.key, text);
+    }
+    this.openStringPointer = this._nextValuePath();
+    this._pushUpdate();
+  }
+
+  _expectsKey(): boolean {
+    if (this.stack.length === 0) {
+      return false;
+    }
+    const ctx = this.stack[this.stack.length - 1];
+    return (
+      ctx.type === "object" &&
+      (ctx.state === "expectKey" || ctx.state === "expectKeyOrEnd")
+    );
+  }
+
+  _pushKey(key: string): void {
+    const ctx = this.stack[this.stack.length - 1];
+    if (ctx.length >= this.maxKeys) {
+      throw this._limitError("maxKeys", this.maxKeys);
+    }
+    ctx.key = key;
+    ctx.state = "expectColon";
+    if (ctx.keys && !ctx.ignored) {
+      if (ctx.keys.has(key)) {
+        if (this.duplicateKeys === "error") {
+          throw this._error("DUPLICATE_KEY", "Duplicate key " + JSON.stringify(key));
+        }
+        ctx.ignoreValue = true;
+      } else {
+        ctx.keys.add(key);
+      }
+    }
+    if (ctx.ignored || ctx.ignoreValue) {
+      return;
+    }
+    this._emit({
+      type: "key",
+      key,
+      path: ctx.path + "/" + encodeJsonPointerSegment(key),
+      offset: this.tokenOffset,
+    });
+  }
+
+  /**
+   * Returns the array index or object key the next value will be stored under
+   */
+  _nextValueKey(): string | number | undefined {
+    if (this.stack.length === 0) {
+      return undefined;
+    }
+    const ctx = this.stack[this.stack.length - 1];
+    return ctx.type === "array" ? ctx.length : ctx.key;
+  }
+
+  /**
+   * Returns the JSON Pointer the next value will be stored at
+   */
+  _nextValuePath(): string {
+    if (this.stack.length === 0) {
+      return "";
+    }
+    const ctx = this.stack[this.stack.length - 1];
+    if (ctx.type === "array") {
+      return ctx.path + "/" + ctx.length;
+    }
+    return ctx.path + "/" + encodeJsonPointerSegment(ctx.key ?? "");
+  }
+
+  /**
+   * Fails on the first character of a value that its container does not accept,
+   * so that the error points at the value instead of its end
+   */
+  _checkValueStart(): void {
+    if (this.stack.length === 0) {
+      if (this.multiDocument && this.rootClosed) {
+        this._startDocument();
+      } else if (this.strict && this.rootClosed) {
+        throw this._error("UNEXPECTED_TOKEN", "Unexpected data after the root value");
+      }
+      return;
+    }
+    const ctx = this.stack[this.stack.length - 1];
+    if (ctx.type === "array") {
+      if (ctx.state !== "expectValue" && ctx.state !== "expectValueOrEnd") {
+        throw this._error("UNEXPECTED_VALUE", "Unexpected value in array");
+      }
+      if (ctx.length >= this.maxArrayLength) {
+        throw this._limitError("maxArrayLength", this.maxArrayLength);
+      }
+    } else if (ctx.state !== "expectValue") {
+      throw this._error("UNEXPECTED_VALUE", "Unexpected value in object");
+    }
+  }
+
+  /**
+   * Whether the next value belongs to a member ignored by the "first-wins"
+   * duplicate key policy
+   */
+  _isIgnoredValue(): boolean {
+    const ctx = this.stack[this.stack.length - 1];
+    return ctx !== undefined && (ctx.ignored || ctx.ignoreValue);
+  }
+
   _pushValue(value: any): void {
     if (this.stack.length === 0) {
-      this.root = value;
-      this.updates.push(this._cloneRoot());
+      if (this.buildTree) {
+        this.root = value;
+        this._pushUpdate();
+      }
       return;
     }
     const ctx = this.stack[this.stack.length - 1];
+    const store = this.buildTree && !ctx.ignored && !ctx.ignoreValue;
     if (ctx.type === "array") {
       if (ctx.state !== "expectValue" && ctx.state !== "expectValueOrEnd") {
-        throw createParseError("Unexpected value in array");
+        throw this._error("UNEXPECTED_VALUE", "Unexpected value in array");
       }
-      ctx.value.push(value);
+      if (store) {
+        this._setChild(ctx, ctx.length, value);
+      }
+      ctx.length++;
       ctx.state = "expectCommaOrEnd";
     } else {
-      if (ctx.state === "expectKey" || ctx.state === "expectKeyOrEnd") {
-        ctx.key = value;
-        ctx.state = "expectColon";
-        return;
-      }
       if (ctx.state !== "expectValue") {
-        throw createParseError("Unexpected value in object");
+        throw this._error("UNEXPECTED_VALUE", "Unexpected value in object");
       }
       if (ctx.key === undefined) {
-        throw createParseError("Object key is undefined");
+        throw this._error("UNEXPECTED_VALUE", "Object key is undefined");
+      }
+      if (store) {
+        this._setChild(ctx, ctx.key, value);
       }
-      ctx.value[ctx.key] = value;
       ctx.key = undefined;
+      ctx.ignoreValue = false;
+      ctx.length++;
       ctx.state = "expectCommaOrEnd";
     }
-    this.updates.push(this._cloneRoot());
+    if (store) {
+      this._pushUpdate();
+    }
   }
 
   _closeStructure(ch: string): void {
     if (this.stack.length === 0) {
-      throw createParseError("Unexpected closing bracket");
+      if (this.repair) {
+        this._applyRepair("dropClosingBracket", "");
+        return;
+      }
+      throw this._error("UNEXPECTED_CLOSING_BRACKET", "Unexpected closing bracket");
     }
     const ctx = this.stack[this.stack.length - 1];
+    const afterComma = ctx.state === (ctx.type === "array" ? "expectValue" : "expectKey");
+    if (this.strict && this.syntax === "json" && afterComma) {
+      throw this._error("UNEXPECTED_CLOSING_BRACKET", "Unexpected closing bracket after comma");
+    }
     if (ctx.type === "array" && ch === "]") {
-      const closedStructure = ctx.value;
-      this.stack.pop();
-      this.closedStructures.push(closedStructure);
-      this.updates.push(this._cloneRoot());
+      this._popStructure(ctx);
+      this._emitEnd("endArray", ctx);
       return;
     }
     if (ctx.type === "object" && ch === "}") {
       if (ctx.state === "expectColon" || ctx.state === "expectValue") {
-        throw createParseError("Unexpected closing brace");
+        if (!this.repair) {
+          throw this._error("UNEXPECTED_CLOSING_BRACKET", "Unexpected closing brace");
+        }
+        this._dropDanglingKey(ctx);
       }
-      const closedStructure = ctx.value;
+      this._popStructure(ctx);
+      this._emitEnd("endObject", ctx);
+      return;
+    }
+    if (this.repair) {
+      this._applyRepair("fixClosingBracket", ctx.path);
+      this._repairClose(ctx);
+      return;
+    }
+    throw this._error("MISMATCHED_CLOSING_BRACKET", "Mismatched closing bracket");
+  }
+
+  /**
+   * Returns true when `ch` starts a value (or member) right after another one
+   * without a separating comma
+   */
+  _isMissingComma(ch: string): boolean {
+    if (this.stack.length === 0) {
+      return false;
+    }
+    const ctx = this.stack[this.stack.length - 1];
+    if (ctx.state !== "expectCommaOrEnd") {
+      return false;
+    }
+    if (ctx.type === "object") {
+      return ch === '"' || ch === "'" || isIdentifierStart(ch);
+    }
+    return this._startsValue(ch);
+  }
+
+  /**
+   * Whether a key is followed by the first character of a value without a colon
+   * in between, as in {"a" 1}
+   */
+  _isMissingColon(ch: string): boolean {
+    if (this.stack.length === 0) {
+      return false;
+    }
+    const ctx = this.stack[this.stack.length - 1];
+    return ctx.type === "object" && ctx.state === "expectColon" && this._startsValue(ch);
+  }
+
+  /**
+   * Whether the character starts a value in repair mode
+   */
+  _startsValue(ch: string): boolean {
+    return (
+      ch === "{" ||
+      ch === "[" ||
+      ch === '"' ||
+      ch === "'" ||
+      ch === "-" ||
+      isDigit(ch) ||
+      this.literalStarts.has(ch) ||
+      (this.syntax === "json5" && (ch === "+" || ch === "."))
+    );
+  }
+
+  /**
+   * Closes whatever the input left open when it ended: the current token, then
+   * every open object and array
+   */
+  _repairTruncation(): void {
+    switch (this.state) {
+      case "string": {
+        const value = this.token;
+        this.state = "default";
+        this.token = "";
+        this.escape = false;
+        this.unicode = null;
+        this.publishedPartial = null;
+        this.openStringPointer = null;
+        if (this._expectsKey()) {
+          const ctx = this.stack[this.stack.length - 1];
+          this._applyRepair("dropDanglingKey", ctx.path + "/" + encodeJsonPointerSegment(value));
+        } else {
+          this._applyRepair("closeString", this._nextValuePath());
+          this._pushPrimitive(value, this.reviver ? this.rawString + this.buffer.slice(this.stringStart) : undefined);
+        }
+        break;
+      }
+      case "number": {
+        if (this._isValidNumber(this.token, this._numberValue(this.token))) {
+          this._flushNumber();
+        } else {
+          this._applyRepair("dropIncompleteValue", this._nextValuePath());
+          this.state = "default";
+          this.token = "";
+        }
+        break;
+      }
+      case "literal": {
+        const candidates = Object.keys(this.literals).filter((literal) => literal.startsWith(this.token));
+        if (candidates.length === 1) {
+          this._applyRepair("completeLiteral", this._nextValuePath());
+          this._finishLiteral(candidates[0]);
+        } else {
+          this._applyRepair("dropIncompleteValue", this._nextValuePath());
+          this.state = "default";
+          this.token = "";
+        }
+        break;
+      }
+      case "identifier": {
+        const ctx = this.stack[this.stack.length - 1];
+        this._applyRepair("dropDanglingKey", ctx.path + "/" + encodeJsonPointerSegment(this.token));
+        this.state = "default";
+        this.token = "";
+        break;
+      }
+      case "comment":
+        if (this.token !== "//") {
+          this._applyRepair("closeComment", this._currentPointer());
+        }
+        this.state = "default";
+        this.token = "";
+        break;
+    }
+    while (this.stack.length > 0) {
+      const ctx = this.stack[this.stack.length - 1];
+      this._applyRepair("closeStructure", ctx.path);
+      this._repairClose(ctx);
+    }
+  }
+
+  /**
+   * Closes the structure on top of the stack regardless of its state
+   */
+  _repairClose(ctx: ParserContext): void {
+    if (ctx.type === "object" && (ctx.state === "expectColon" || ctx.state === "expectValue")) {
+      this._dropDanglingKey(ctx);
+    }
+    this._popStructure(ctx);
+    this._emitEnd(ctx.type === "array" ? "endArray" : "endObject", ctx);
+  }
+
+  _dropDanglingKey(ctx: ParserContext): void {
+    this._applyRepair("dropDanglingKey", ctx.path + "/" + encodeJsonPointerSegment(ctx.key ?? ""));
+    ctx.key = undefined;
+    ctx.ignoreValue = false;
+    ctx.state = "expectCommaOrEnd";
+  }
+
+  /**
+   * Returns the JSON Pointer of the token being parsed: the open object's path
+   * while a key is expected, the next value's path otherwise
+   */
+  _currentPointer(): string {
+    if (this._expectsKey()) {
+      return this.stack[this.stack.length - 1].path;
+    }
+    return this._nextValuePath();
+  }
+
+  _applyRepair(kind: JsonRepairKind, pointer: string, offset = this.offset, length?: number): void {
+    const repair: JsonRepair = { kind, offset, pointer };
+    if (length !== undefined) {
+      repair.length = length;
+    }
+    if (this.onRepair) {
+      this.onRepair(repair);
+    }
+  }
+
+  _popStructure(ctx: ParserContext): void {
+    if (ctx.ignored) {
       this.stack.pop();
-      this.closedStructures.push(closedStructure);
-      this.updates.push(this._cloneRoot());
       return;
     }
-    throw createParseError("Mismatched closing bracket");
+    if (this.buildTree) {
+      // A container that was part of a snapshot gets a fresh identity when it closes,
+      // so that its final version is distinguishable from the partial ones emitted before.
+      const container = this._seal(ctx.shared ? this._copyContainer(ctx.value) : ctx.value);
+      const value = this.reviver || this.createObject || this.createArray
+        ? this._reviveContainer(ctx, container)
+        : container;
+      this._replaceTop(value);
+      if (value !== null && typeof value === "object") {
+        this.closingStructures.push(value);
+      }
+    }
+    this.stack.pop();
+    if (this.buildTree) {
+      this._pushUpdate();
+    }
+    if (this.stack.length === 0) {
+      this._closeDocument();
+    }
+  }
+
+  /**
+   * Marks the top-level value as complete and keeps it as a finished document
+   */
+  _closeDocument(): void {
+    this.rootClosed = true;
+    if (this.multiDocument && this.buildTree && this.keepDocuments) {
+      this.documents.push(this.root);
+    }
+  }
+
+  /**
+   * Starts the next document after a complete top-level value
+   */
+  _startDocument(): void {
+    // The last snapshot of the previous document is queued under its index
+    this._flushUpdate();
+    this.document++;
+    this.root = undefined;
+    this.rootClosed = false;
+  }
+
+  /**
+   * Stores a value in the container of `ctx` (the top of the stack) without
+   * mutating any container that is already part of an emitted snapshot
+   */
+  _setChild(ctx: ParserContext, key: string | number, value: any): void {
+    this._assign(this._writableValue(this.stack.length - 1), key, value);
+  }
+
+  /**
+   * Replaces the container on top of the stack with its final value
+   */
+  _replaceTop(value: any): void {
+    const depth = this.stack.length - 1;
+    const ctx = this.stack[depth];
+    ctx.value = value;
+    if (depth === 0) {
+      this.root = value;
+    } else {
+      this._assign(this._writableValue(depth - 1), ctx.parentKey!, value);
+    }
+  }
+
+  /**
+   * Returns the container of the context at `depth`, ready to be written to.
+   * Containers are written in place until a snapshot includes them; the first
+   * write after that copies the container and, the same way, its ancestors,
+   * while every other subtree stays shared with the snapshot.
+   */
+  _writableValue(depth: number): any {
+    const ctx = this.stack[depth];
+    if (ctx.shared) {
+      ctx.value = this._copyContainer(ctx.value);
+      ctx.shared = false;
+      if (depth === 0) {
+        this.root = ctx.value;
+      } else {
+        this._assign(this._writableValue(depth - 1), ctx.parentKey!, ctx.value);
+      }
+    }
+    return ctx.value;
+  }
+
+  _assign(container: any, key: string | number, value: any): void {
+    if (value === undefined && !Array.isArray(container)) {
+      // Removed by the reviver
+      delete container[key];
+    } else if (key === "__proto__") {
+      // Assigning would call the inherited setter and replace the prototype
+      Object.defineProperty(container, key, { value, writable: true, enumerable: true, configurable: true });
+    } else {
+      container[key] = value;
+    }
+  }
+
+  _copyContainer(container: any): any {
+    if (Array.isArray(container)) {
+      return container.slice();
+    }
+    // Spreading defines own properties, so a "__proto__" key is copied as data
+    return this.nullPrototype ? Object.assign(Object.create(null), container) : { ...container };
+  }
+
+  _seal<V extends object>(value: V): V {
+    return this.freezeSnapshots ? Object.freeze(value) : value;
+  }
+
+  _emitEnd(type: "endObject" | "endArray", ctx: ParserContext): void {
+    if (ctx.ignored) {
+      return;
+    }
+    if (this.buildTree) {
+      this._emit({ type, path: ctx.path, offset: this.offset, value: ctx.value });
+    } else {
+      this._emit({ type, path: ctx.path, offset: this.offset });
+    }
+  }
+
+  /**
+   * Creates a syntax error located at the character being processed
+   */
+  _error(code: JsonStreamParseErrorCode, reason: string): JsonStreamParseError {
+    return new JsonStreamParseError(code, reason, this._errorDetails());
+  }
+
+  /**
+   * Creates a limit error located at the character being processed
+   */
+  _limitError(limit: JsonParseLimit, max: number): JsonStreamLimitError {
+    return new JsonStreamLimitError(limit, max, this._errorDetails());
+  }
+
+  _errorDetails(): JsonStreamParseErrorDetails {
+    const before = (this.recent + this.buffer.slice(0, this.cursor)).slice(-SNIPPET_RADIUS);
+    const after = this.buffer.slice(this.cursor, this.cursor + SNIPPET_RADIUS);
+    const ctx = this.stack[this.stack.length - 1];
+    return {
+      byteOffset: this.offset,
+      charOffset: this.charOffset,
+      line: this.line,
+      column: this.charOffset - this.lineStart + 1,
+      pointer: ctx ? ctx.path : "",
+      parserState: this.state,
+      contextState: ctx?.state,
+      snippet: before + after,
+      snippetOffset: before.length,
+    };
+  }
+
+  _emit(event: JsonParseEvent): void {
+    if (this.multiDocument) {
+      event.document = this.document;
+    }
+    if (this.onEvent) {
+      this.onEvent(event);
+    }
   }
 
   _comma(): void {
     if (this.stack.length === 0) {
-      throw createParseError("Unexpected comma");
+      throw this._error("UNEXPECTED_COMMA", "Unexpected comma");
     }
     const ctx = this.stack[this.stack.length - 1];
+    if (this.repair && ctx.type === "object" && ctx.state === "expectValue") {
+      // The value was dropped, as in {"a": nope, "b": 1}
+      this._dropDanglingKey(ctx);
+    } else if (this.repair && ctx.state !== "expectCommaOrEnd" && ctx.state !== "expectColon") {
+      // A repeated or leading comma, as in [1,,2] or {"a": 1,, "b": 2}
+      this._applyRepair("skipCharacter", ctx.path);
+      return;
+    }
     if (ctx.state !== "expectCommaOrEnd") {
-      throw createParseError("Unexpected comma");
+      throw this._error("UNEXPECTED_COMMA", "Unexpected comma");
     }
     ctx.state = ctx.type === "object" ? "expectKey" : "expectValue";
   }
 
   _colon(): void {
     if (this.stack.length === 0) {
-      throw createParseError("Unexpected colon");
+      throw this._error("UNEXPECTED_COLON", "Unexpected colon");
     }
     const ctx = this.stack[this.stack.length - 1];
     if (ctx.type !== "object" || ctx.state !== "expectColon") {
-      throw createParseError("Unexpected colon");
+      throw this._error("UNEXPECTED_COLON", "Unexpected colon");
     }
     ctx.state = "expectValue";
   }
 
-  _cloneRoot(): any {
-    return deepClone(this.root);
+  /**
+   * Records that the tree changed. The snapshot is queued by `_flushUpdate()` once
+   * per chunk, so that values parsed together do not each copy their containers.
+   */
+  _pushUpdate(): void {
+    this.pendingUpdate = true;
+  }
+
+  /**
+   * Queues the current root as a snapshot if the tree changed since the last one,
+   * unless the snapshot is deferred and `force` is not set
+   */
+  _flushUpdate(force = false): void {
+    if (!this.pendingUpdate || (!force && this._defersSnapshot())) {
+      return;
+    }
+    this.pendingUpdate = false;
+    this.snapshotOffset = this.offset;
+    const snapshot = this._snapshot();
+    if (this.openStringPointer !== null) {
+      openStringPointers.set(snapshot, this.openStringPointer);
+    }
+    this.updates.push(snapshot);
+    for (const closed of this.closingStructures) {
+      this.closedStructures.push(closed);
+    }
+    this.closingStructures = [];
+    if (this.multiDocument) {
+      this.updateDocuments.push(this.document);
+    }
+  }
+
+  /**
+   * Whether the snapshot waits for more input because the next write would copy
+   * more items of open containers than bytes were parsed since the last snapshot,
+   * as in a wide array fed in small chunks. Snapshots of large containers then come
+   * at intervals that grow with their size, which keeps parsing linear.
+   */
+  _defersSnapshot(): boolean {
+    let size = 0;
+    for (const ctx of this.stack) {
+      size += ctx.length;
+    }
+    return size > SNAPSHOT_COPY_THRESHOLD && size > this.offset - this.snapshotOffset;
+  }
+
+  _snapshot(): any {
+    // Open containers are copied on their next write, and closed ones are
+    // never written again, so the current root is an immutable snapshot.
+    for (const ctx of this.stack) {
+      if (!ctx.shared) {
+        this._seal(ctx.value);
+        ctx.shared = true;
+      }
+    }
+    return this.root;
   }
 
   collectUpdates(): any[] {
+    this._flushUpdate();
     const list = this.updates;
     this.updates = [];
     return list;
   }
 
+  /**
+   * Returns the document index of every update collected since the last call,
+   * in multi-document mode (empty otherwise)
+   */
+  collectUpdateDocuments(): number[] {
+    const list = this.updateDocuments;
+    this.updateDocuments = [];
+    return list;
+  }
+
   collectClosedStructures(): any[] {
     const list = this.closedStructures;
     this.closedStructures = [];
     return list;
   }
+
+  /**
+   * Saves the parser state between two chunks in a JSON-safe form, so that parsing
+   * can resume in another process by re-opening the source at `offset` bytes and
+   * feeding the rest to a parser created with the same options and `restore()`d.
+   * Updates and closed structures not collected yet are not part of the checkpoint.
+   * @throws TypeError when the tree holds values that cannot be saved, such as
+   *   class instances created by a reviver
+   */
+  checkpoint(): JsonParserCheckpoint {
+    if (this.buffer.length > 0) {
+      throw new Error("Cannot checkpoint while a chunk is being parsed");
+    }
+    return {
+      version: 1,
+      offset: this.offset,
+      charOffset: this.charOffset,
+      line: this.line,
+      lineStart: this.lineStart,
+      tokenOffset: this.tokenOffset,
+      state: this.state,
+      token: this.token,
+      escape: this.escape,
+      unicode: this.unicode,
+      unicodeLength: this.unicodeLength,
+      quote: this.quote,
+      continuation: this.continuation,
+      rawString: this.rawString,
+      publishedPartial: this.publishedPartial,
+      recent: this.recent,
+      document: this.document,
+      rootClosed: this.rootClosed,
+      trailingTextOffset: this.trailingTextOffset,
+      trailingTextLength: this.trailingTextLength,
+      root: encodeCheckpointValue(this.root),
+      documents: this.documents.map((document) => encodeCheckpointValue(document)),
+      stack: this.stack.map(
+        (ctx): JsonCheckpointContext => ({
+          type: ctx.type,
+          state: ctx.state,
+          path: ctx.path,
+          key: ctx.key ?? null,
+          length: ctx.length,
+          parentKey: ctx.parentKey ?? null,
+          ignored: ctx.ignored,
+          ignoreValue: ctx.ignoreValue,
+          keys: ctx.keys ? Array.from(ctx.keys) : null,
+        })
+      ),
+    };
+  }
+
+  /**
+   * Resumes from a state saved by `checkpoint()`, replacing the current state.
+   * The restored value is queued as an update, after the same value without the
+   * open string if there is one, and every completed structure in it as a closed
+   * structure.
+   */
+  restore(checkpoint: JsonParserCheckpoint): void {
+    if (checkpoint.version !== 1) {
+      throw new Error("Unsupported checkpoint version " + checkpoint.version);
+    }
+    const objects: object[] = [];
+    const options = {
+      nullPrototype: this.nullPrototype,
+      seal: <V extends object>(value: V) => this._seal(value),
+      onObject: (value: object) => objects.push(value),
+    };
+    this.documents = checkpoint.documents.map((document) => decodeCheckpointValue(document, options));
+    this.root = decodeCheckpointValue(checkpoint.root, options);
+    this.stack = [];
+    for (const saved of checkpoint.stack) {
+      const parent = this.stack[this.stack.length - 1];
+      const parentKey = saved.parentKey ?? undefined;
+      let value: any;
+      if (this.buildTree && !saved.ignored) {
+        value = parent ? parent.value[parentKey!] : this.root;
+      } else {
+        value = this._seal(saved.type === "array" ? [] : this.nullPrototype ? Object.create(null) : {});
+      }
+      const ctx = new ParserContext(saved.type, value, saved.path, parentKey, saved.ignored);
+      ctx.key = saved.key ?? undefined;
+      ctx.state = saved.state;
+      ctx.length = saved.length;
+      ctx.ignoreValue = saved.ignoreValue;
+      ctx.keys = saved.keys ? new Set(saved.keys) : null;
+      // Restored containers are sealed and queued as a snapshot
+      ctx.shared = true;
+      this.stack.push(ctx);
+    }
+
+    this.buffer = "";
+    this.cursor = 0;
+    this.stringStart = 0;
+    this.offset = checkpoint.offset;
+    this.charOffset = checkpoint.charOffset;
+    this.line = checkpoint.line;
+    this.lineStart = checkpoint.lineStart;
+    this.tokenOffset = checkpoint.tokenOffset;
+    this.state = checkpoint.state;
+    this.token = checkpoint.token;
+    this.escape = checkpoint.escape;
+    this.unicode = checkpoint.unicode;
+    this.unicodeLength = checkpoint.unicodeLength;
+    this.quote = checkpoint.quote;
+    this.continuation = checkpoint.continuation;
+    this.rawString = checkpoint.rawString;
+    this.publishedPartial = checkpoint.publishedPartial;
+    this.openStringPointer = null;
+    this.recent = checkpoint.recent;
+    this.document = checkpoint.document;
+    this.rootClosed = checkpoint.rootClosed;
+    this.trailingTextOffset = checkpoint.trailingTextOffset;
+    this.trailingTextLength = checkpoint.trailingTextLength;
+
+    const open = new Set(this.stack.map((ctx) => ctx.value));
+    this.closedStructures = objects.filter((value) => !open.has(value));
+    this.closingStructures = [];
+    this.updates = [];
+    this.updateDocuments = [];
+    this.pendingUpdate = false;
+    if (this.buildTree && this.root !== undefined) {
+      if (this.state === "string" && this.publishedPartial !== null) {
+        // Like parsing the chunk did, queue the value without the open string first
+        const ctx = this.stack[this.stack.length - 1];
+        const container = this._writableValue(this.stack.length - 1);
+        if (ctx.type === "array") {
+          container.length = ctx.length;
+        } else {
+          delete container[ctx.key!];
+        }
+        this._pushUpdate();
+        this._flushUpdate(true);
+        this._setChild(ctx, ctx.type === "array" ? ctx.length : ctx.key!, this.publishedPartial);
+        this.openStringPointer = this._nextValuePath();
+      }
+      this._pushUpdate();
+      this._flushUpdate(true);
+    }
+  }
 }
+/**
+ * Parses a JSON stream and yields an immutable snapshot of the value parsed so far
+ * after every chunk (with large open containers, at growing intervals). The reader is
+ * cancelled when iteration stops early, unless `cancelSource` is false; aborting the
+ * `signal` always cancels it.
+ */
 export async function* incrementalJsonParser<T extends any>(
-  reader: ReadableStreamDefaultReader<Uint8Array | string>
+  reader: ReadableStreamDefaultReader<Uint8Array | string>,
+  options: Omit<IncrementalParserOptions, "buildTree"> & CancelOptions = {}
 ): AsyncGenerator<DeepPartial<T>, void, unknown> {
+  const { signal, cancelSource = true, ...parserOptions } = options;
   const decoder = createStreamDecoder();
-  const parser = new IncrementalParser();
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) {
-      parser.end();
+  // The documents returned by end() are never read here
+  const parser = new IncrementalParser({ keepDocuments: false, ...parserOptions });
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await abortable(reader.read(), signal);
+      if (done) {
+        parser.end();
+        const updates = parser.collectUpdates();
+        for (const u of updates) {
+          if (u !== undefined) {
+            yield u;
+          }
+        }
+        break;
+      }
+      const chunk = decodeStreamChunk(value, decoder);
+      parser.feed(chunk);
       const updates = parser.collectUpdates();
       for (const u of updates) {
         if (u !== undefined) {
           yield u;
         }
       }
-      break;
     }
-    const chunk = decodeStreamChunk(value, decoder);
-    parser.feed(chunk);
-    const updates = parser.collectUpdates();
-    for (const u of updates) {
-      if (u !== undefined) {
-        yield u;
+    finished = true;
+  } finally {
+    if (!finished) {
+      cancelReader(reader, signal, cancelSource);
+    }
+  }
+}
+
+/**
+ * Parses a JSON stream and yields SAX-style events without materializing the document.
+ * Takes the same `signal` and `cancelSource` options as `incrementalJsonParser`.
+ *
+ * @example
+ * ```typescript
+ * for await (const event of jsonEventParser(reader)) {
+ *   if (event.type === "value") {
+ *     console.log(event.path, event.value);
+ *   }
+ * }
+ * ```
+ */
+export async function* jsonEventParser(
+  reader: ReadableStreamDefaultReader<Uint8Array | string>,
+  options: Pick<
+    IncrementalParserOptions,
+    "strict" | "syntax" | "repair" | "onRepair" | "multiDocument" | "numbers"
+  > & CancelOptions = {}
+): AsyncGenerator<JsonParseEvent, void, unknown> {
+  const { signal, cancelSource = true, ...parserOptions } = options;
+  const decoder = createStreamDecoder();
+  let events: JsonParseEvent[] = [];
+  const parser = new IncrementalParser({
+    ...parserOptions,
+    buildTree: false,
+    onEvent: (event) => events.push(event),
+  });
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await abortable(reader.read(), signal);
+      if (done) {
+        parser.end();
+      } else {
+        parser.feed(decodeStreamChunk(value, decoder));
+      }
+      const pending = events;
+      events = [];
+      yield* pending;
+      if (done) {
+        break;
       }
     }
+    finished = true;
+  } finally {
+    if (!finished) {
+      cancelReader(reader, signal, cancelSource);
+    }
   }
 }
+
+/**
+ * Cancels the reader of a parse that stopped early, when it was aborted or asked to
+ */
+const cancelReader = (
+  reader: ReadableStreamDefaultReader<unknown>,
+  signal: AbortSignal | undefined,
+  cancelSource: boolean
+): void => {
+  if (signal?.aborted) {
+    reader.cancel(getAbortReason(signal)).catch(() => {});
+  } else if (cancelSource) {
+    reader.cancel(createAbortError("The source was cancelled")).catch(() => {});
+  }
+};
@@ -1,8 +1,74 @@
 // Core parser functionality
-export { incrementalJsonParser } from "./incremental-json-parser";
+export {
+  incrementalJsonParser,
+  jsonEventParser,
+  IncrementalParser,
+  getOpenStringPointer,
+  type IncrementalParserOptions,
+} from "./incremental-json-parser";
+export {
+  JsonStreamParseError,
+  JsonStreamLimitError,
+  type JsonStreamParseErrorCode,
+  type JsonStreamParseErrorDetails,
+} from "./utils/error-utils";
+export type {
+  DeepPartial,
+  JsonParseEvent,
+  JsonParseEventType,
+  JsonParseEventHandler,
+  JsonSyntax,
+  JsonNumberMode,
+  JsonDuplicateKeyPolicy,
+  JsonParseLimits,
+  JsonParseLimit,
+  JsonParserCheckpoint,
+  JsonCheckpointContext,
+  JsonCheckpointValue,
+  JsonReviver,
+  JsonValueContext,
+  JsonRepair,
+  JsonRepairKind,
+  JsonRepairHandler,
+} from "./types";
+
+// Push-mode parsing for WebSocket frames, worker messages and callbacks
+export { PushStreamingJsonParser } from "./push-streaming-json-parser";
+
+// Parsing as a pipeThrough() stage
+export {
+  JsonParseTransformStream,
+  type JsonParseTransformStreamOptions,
+} from "./json-parse-transform-stream";
 
 // Stream reader for convenient JSON streaming
-export { StreamingJsonParser } from "./streaming-json-parser";
+export {
+  StreamingJsonParser,
+  StreamingJsonNode,
+  type StreamingJsonNodeType,
+  type StreamingJsonParserOptions,
+  type DocumentMatch,
+  type TextDelta,
+  type WatchOptions,
+  type ToReadableStreamOptions,
+  type PartialMatch,
+} from "./streaming-json-parser";
+
+// Cancelling parsers and their sources
+export type { AbortOptions, CancelOptions } from "./utils/abort";
+
+// Reading JSON text from any kind of source
+export {
+  createJsonStreamReader,
+  type JsonStreamSource,
+  type JsonSourceChunk,
+} from "./utils/stream-source";
+
+// Locating JSON embedded in prose or code fences
+export {
+  JsonPayloadScanner,
+  type JsonPayloadScannerOptions,
+} from "./utils/payload-scanner";
 
 // SSE stream utilities
 export {
@@ -12,6 +78,7 @@ export {
   createSSEStreamingParser,
   extractJSONFromSSELine,
   type SSEMessage,
+  type SSEStreamOptions,
 } from "./utils/sse";
 
 // Streaming parser adapters for SSE and object streams
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { JsonParseTransformStream } from "./json-parse-transform-stream";
+import { JsonStreamParseError } from "./utils/error-utils";
+import type { JsonParseEvent } from "./types";
+import { collectStream } from "./utils/test-helpers/collect";
+
+function createSource<V>(chunks: V[]): ReadableStream<V> {
+  return new ReadableStream<V>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("JsonParseTransformStream", () => {
+  it("should turn bytes into parse events", async () => {
+    const bytes = new TextEncoder().encode('{"name": "Zoë", "tags": [1]}');
+    // Split inside the two-byte "ë"
+    const source = createSource([bytes.slice(0, 13), bytes.slice(13)]);
+    const events = await collectStream(source.pipeThrough(new JsonParseTransformStream()));
+
+    expect(events.map((e) => [e.type, e.path])).toEqual([
+      ["startObject", ""],
+      ["key", "/name"],
+      ["value", "/name"],
+      ["key", "/tags"],
+      ["startArray", "/tags"],
+      ["value", "/tags/0"],
+      ["endArray", "/tags"],
+      ["endObject", ""],
+    ]);
+    expect(events[2]).toMatchObject({ type: "value", value: "Zoë" });
+  });
+
+  it("should produce snapshots", async () => {
+    const source = createSource(['{"items": [{"id": 1}', ', {"id": 2}]}']);
+    const snapshots = await collectStream(
+      source.pipeThrough(new JsonParseTransformStream<any>({ output: "snapshots" }))
+    );
+
+    expect(snapshots[snapshots.length - 1]).toEqual({ items: [{ id: 1 }, { id: 2 }] });
+    expect(snapshots).toContainEqual({ items: [{ id: 1 }] });
+  });
+
+  it("should pass parser options through", async () => {
+    const source = createSource(['{"n": 12345678901234567890, // comment\n}']);
+    const [snapshot] = (
+      await collectStream(
+        source.pipeThrough(new JsonParseTransformStream<any>({ output: "snapshots", syntax: "jsonc", numbers: "string" }))
+      )
+    ).slice(-1);
+
+    expect(snapshot).toEqual({ n: "12345678901234567890" });
+  });
+
+  it("should error the stream on invalid JSON", async () => {
+    const source = createSource(['{"a": 1', "]"]);
+    await expect(collectStream(source.pipeThrough(new JsonParseTransformStream()))).rejects.toBeInstanceOf(
+      JsonStreamParseError
+    );
+  });
+
+  it("should error the stream on truncated JSON", async () => {
+    const source = createSource(['{"a": [1, 2']);
+    await expect(collectStream(source.pipeThrough(new JsonParseTransformStream()))).rejects.toMatchObject({
+      code: "UNEXPECTED_END",
+    });
+  });
+
+  it("should compose with other stages", async () => {
+    const source = createSource(['[{"id": 1, "ok": true}, {"id": 2, "ok": false},', ' {"id": 3, "ok": true}]']);
+    const lines = await collectStream(
+      source
+        .pipeThrough(new JsonParseTransformStream())
+        .pipeThrough(
+          new TransformStream<JsonParseEvent, string>({
+            transform(event, controller) {
+              if (event.type === "value" && event.path.endsWith("/id")) {
+                controller.enqueue(`${event.value}\n`);
+              }
+            },
+          })
+        )
+    );
+
+    expect(lines.join("")).toBe("1\n2\n3\n");
+  });
+});
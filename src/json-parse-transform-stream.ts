@@ -0,0 +1,75 @@
+import { IncrementalParser, type IncrementalParserOptions } from './incremental-json-parser';
+import type { JsonParseEvent } from './types';
+import { decodeStreamChunk, createStreamDecoder } from './utils/text-decoder';
+
+/**
+ * Options for controlling JsonParseTransformStream behavior
+ */
+export interface JsonParseTransformStreamOptions
+  extends Omit<IncrementalParserOptions, 'buildTree' | 'onEvent'> {
+  /**
+   * What the readable side produces:
+   * - "events": SAX-style parse events, without building the parsed value
+   * - "snapshots": immutable snapshots of the value parsed so far, as `incrementalJsonParser` yields them
+   * @default "events"
+   */
+  output?: 'events' | 'snapshots';
+}
+
+/**
+ * A TransformStream parsing streamed JSON text (UTF-8 bytes or strings) into parse
+ * events or snapshots, so that parsing composes with `pipeThrough()` and keeps the
+ * backpressure of the pipeline. Syntax errors error both sides of the stream.
+ *
+ * The parser options that shape the value (such as `reviver`) only apply to snapshots.
+ *
+ * @example
+ * ```typescript
+ * const events = response.body!.pipeThrough(new JsonParseTransformStream());
+ * for await (const event of events) {
+ *   if (event.type === 'value') console.log(event.path, event.value);
+ * }
+ *
+ * const snapshots = response.body!.pipeThrough(
+ *   new JsonParseTransformStream<DeepPartial<User>>({ output: 'snapshots' })
+ * );
+ * ```
+ */
+export class JsonParseTransformStream<O = JsonParseEvent> extends TransformStream<Uint8Array | string, O> {
+  constructor(options: JsonParseTransformStreamOptions = {}) {
+    const { output = 'events', ...parserOptions } = options;
+    const decoder = createStreamDecoder();
+    let events: JsonParseEvent[] = [];
+    const parser = new IncrementalParser(
+      output === 'events'
+        ? { ...parserOptions, buildTree: false, onEvent: (event) => events.push(event) }
+        : { keepDocuments: false, ...parserOptions, buildTree: true }
+    );
+
+    const enqueueParsed = (controller: TransformStreamDefaultController<O>): void => {
+      let parsed: unknown[];
+      if (output === 'events') {
+        parsed = events;
+        events = [];
+      } else {
+        parsed = parser.collectUpdates().filter((update) => update !== undefined);
+        // Only used to tell closed structures apart, which snapshots do not need
+        parser.collectClosedStructures();
+      }
+      for (const item of parsed) {
+        controller.enqueue(item as O);
+      }
+    };
+
+    super({
+      transform(chunk, controller) {
+        parser.feed(decodeStreamChunk(chunk, decoder));
+        enqueueParsed(controller);
+      },
+      flush(controller) {
+        parser.end();
+        enqueueParsed(controller);
+      },
+    });
+  }
+}
@@ -106,6 +106,37 @@ describe("JSONPointerParser", () => {
     });
   });
 
+  describe("extractMatches", () => {
+    it("should return concrete paths for wildcard matches", () => {
+      const parser = new JSONPointerParser("/items/*/name");
+      const matches = parser.extractMatches({
+        items: [{ name: "a" }, { id: 2 }, { name: "c" }],
+      });
+
+      expect(matches).toEqual([
+        { path: "/items/0/name", value: "a" },
+        { path: "/items/2/name", value: "c" },
+      ]);
+    });
+
+    it("should encode special characters in paths", () => {
+      const parser = new JSONPointerParser("/a~1b/*");
+      const matches = parser.extractMatches({ "a/b": { "c~d": 1 } } as any);
+
+      expect(matches).toEqual([]);
+      expect(new JSONPointerParser("/a~1b/c~0d").extractMatches({ "a/b": { "c~d": 1 } } as any)).toEqual([
+        { path: "/a~1b/c~0d", value: 1 },
+      ]);
+    });
+
+    it("should match primitives with the root pointer only", () => {
+      expect(new JSONPointerParser("").extractMatches(3 as any)).toEqual([{ path: "", value: 3 }]);
+      expect(new JSONPointerParser("").extractMatches("" as any)).toEqual([{ path: "", value: "" }]);
+      expect(new JSONPointerParser("").getNewCompletedValues(false as any)).toEqual([false]);
+      expect(new JSONPointerParser("/length").extractMatches("abc" as any)).toEqual([]);
+    });
+  });
+
   describe("getNewCompletedValues", () => {
     it("should track newly completed array items (default behavior)", () => {
       const parser = new JSONPointerParser("/items/*");
@@ -1,5 +1,5 @@
 import type { DeepPartial } from './types';
-import { parseJsonPointer } from './utils/json-pointer';
+import { parseJsonPointer, encodeJsonPointerSegment } from './utils/json-pointer';
 import { isComplete, isStructurallyComplete, type StructuralContext } from './utils/completeness-checker';
 import { createJsonPointerError } from './utils/error-utils';
 
@@ -16,6 +16,21 @@ export interface JSONPointerOptions {
   waitForStructuralCompletion?: boolean;
 }
 
+/**
+ * A value matched by a pointer together with its concrete JSON Pointer
+ */
+export interface JSONPointerMatch {
+  path: string;
+  value: any;
+}
+
+/**
+ * Serializes a value for change detection; BigInts (see the `numbers` parser option)
+ * are not supported by JSON.stringify
+ */
+const serialize = (value: any): string =>
+  JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? `${v}n` : v));
+
 /**
  * Parses JSON Pointers (RFC 6901) and extracts values from JSON objects.
  * Supports wildcards (*) for array elements.
@@ -23,7 +38,8 @@ export interface JSONPointerOptions {
 export class JSONPointerParser<T = any> {
   private pointer: string;
   private parsedPath: string[];
-  private lastReturnedValues: any[] = [];
+  private lastReturnedJson: string[] = [];
+  private lastReturnedRefs: any[] = [];
   private structuralContext: StructuralContext = {
     closedStructures: new Set(),
     closedPaths: new Set(),
@@ -58,10 +74,20 @@ export class JSONPointerParser<T = any> {
    * @returns Array of extracted values
    */
   extractValues(data: DeepPartial<T>): any[] {
-    if (!data || typeof data !== 'object') return [];
+    return this.extractMatches(data).map(match => match.value);
+  }
+
+  /**
+   * Extracts all matching values together with their concrete paths
+   * @param data - The data to extract from
+   * @returns Array of matches, e.g. `{ path: "/items/0", value: {...} }` for "/items/*"
+   */
+  extractMatches(data: DeepPartial<T>): JSONPointerMatch[] {
+    // Primitives only match the root pointer, which the recursion handles
+    if (data === undefined) return [];
     
-    const results: any[] = [];
-    this.extractRecursive(data, this.parsedPath, 0, results);
+    const results: JSONPointerMatch[] = [];
+    this.extractRecursive(data, this.parsedPath, 0, '', results);
     return results;
   }
 
@@ -72,12 +98,13 @@ export class JSONPointerParser<T = any> {
     current: any,
     path: string[],
     pathIndex: number,
-    results: any[]
+    currentPath: string,
+    results: JSONPointerMatch[]
   ): void {
     if (pathIndex >= path.length) {
       // We've reached the end of the path
       if (current !== undefined) {
-        results.push(current);
+        results.push({ path: currentPath, value: current });
       }
       return;
     }
@@ -88,19 +115,40 @@ export class JSONPointerParser<T = any> {
       // Wildcard for array elements
       for (let i = 0; i < current.length; i++) {
         if (current[i] !== undefined) {
-          this.extractRecursive(current[i], path, pathIndex + 1, results);
+          this.extractRecursive(current[i], path, pathIndex + 1, `${currentPath}/${i}`, results);
         }
       }
     } else if (Array.isArray(current) && /^\d+$/.test(segment)) {
       // Array index
       const index = parseInt(segment, 10);
       if (index < current.length && current[index] !== undefined) {
-        this.extractRecursive(current[index], path, pathIndex + 1, results);
+        this.extractRecursive(current[index], path, pathIndex + 1, `${currentPath}/${index}`, results);
+      }
+    } else if (current && typeof current === 'object' && Object.prototype.hasOwnProperty.call(current, segment)) {
+      // Object property (inherited members such as "constructor" are not part of the data)
+      const childPath = `${currentPath}/${encodeJsonPointerSegment(segment)}`;
+      this.extractRecursive(current[segment], path, pathIndex + 1, childPath, results);
+    }
+  }
+
+  /**
+   * Checks whether a concrete path matches the pointer, following the same rules
+   * as `extractValues()`: wildcards only match array elements.
+   * @param path - Concrete JSON Pointer of a value (e.g., "/items/0")
+   * @param isArrayIndex - Tells whether the segment at the given depth indexes an array
+   */
+  matchesPath(path: string, isArrayIndex: (depth: number) => boolean): boolean {
+    const segments = parseJsonPointer(path);
+    if (segments.length !== this.parsedPath.length) {
+      return false;
+    }
+    for (let i = 0; i < segments.length; i++) {
+      const expected = this.parsedPath[i];
+      if (expected === '*' ? !isArrayIndex(i) : expected !== segments[i]) {
+        return false;
       }
-    } else if (current && typeof current === 'object' && segment in current) {
-      // Object property
-      this.extractRecursive(current[segment], path, pathIndex + 1, results);
     }
+    return true;
   }
 
   /**
@@ -119,7 +167,7 @@ export class JSONPointerParser<T = any> {
    * @returns Array of newly completed values
    */
   getNewCompletedValues(data: DeepPartial<T>): any[] {
-    if (!data || typeof data !== 'object') return [];
+    if (data === undefined) return [];
     
     // Get all currently complete values
     const allValues = this.extractValues(data);
@@ -137,16 +185,18 @@ export class JSONPointerParser<T = any> {
     for (let i = 0; i < completeValues.length; i++) {
       const currentValue = completeValues[i];
       
-      // Check if we have a corresponding previously returned value
-      const previousValue = this.lastReturnedValues[i];
+      // Snapshots share unchanged subtrees, so an identical reference cannot have changed
+      if (currentValue === this.lastReturnedRefs[i]) {
+        continue;
+      }
       
       // If no previous value exists, or the current value is different (more complete)
-      if (!previousValue || JSON.stringify(currentValue) !== JSON.stringify(previousValue)) {
+      const json = serialize(currentValue);
+      if (json !== this.lastReturnedJson[i]) {
         newValues.push(currentValue);
-        
-        // Update the stored value
-        this.lastReturnedValues[i] = JSON.parse(JSON.stringify(currentValue));
+        this.lastReturnedJson[i] = json;
       }
+      this.lastReturnedRefs[i] = currentValue;
     }
     
     return newValues;
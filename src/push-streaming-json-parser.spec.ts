@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { PushStreamingJsonParser } from "./push-streaming-json-parser";
+import { collect } from "./utils/test-helpers/collect";
+import { tick } from "./utils/test-helpers/tick";
+
+describe("PushStreamingJsonParser", () => {
+  it("should parse written chunks for watchers and the full response", async () => {
+    const parser = new PushStreamingJsonParser<any>();
+    const items = collect(parser.watchComplete("/items/*"));
+    const full = parser.getFullResponse();
+
+    for (const chunk of ['{"items": [', '{"id": 1}, ', '{"id"', ": 2}]}"]) {
+      parser.write(chunk);
+      await tick();
+    }
+    parser.end();
+
+    expect(await items).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(await full).toEqual({ items: [{ id: 1 }, { id: 2 }] });
+  });
+
+  it("should queue chunks written before anyone consumes them", async () => {
+    const parser = new PushStreamingJsonParser<any>();
+    parser.write('{"a": ');
+    parser.write("1}");
+    parser.end();
+    expect(await parser.getFullResponse()).toEqual({ a: 1 });
+  });
+
+  it("should decode bytes split inside multi-byte characters", async () => {
+    const bytes = new TextEncoder().encode('{"name": "Zoë"}');
+    const parser = new PushStreamingJsonParser<any>();
+    const partials = collect(parser.readPartial());
+    parser.write(bytes.slice(0, 13));
+    parser.write(Buffer.from(bytes.slice(13)));
+    parser.end();
+    const snapshots = await partials;
+    expect(snapshots[snapshots.length - 1]).toEqual({ name: "Zoë" });
+  });
+
+  it("should reject consumers with the error passed to error()", async () => {
+    const parser = new PushStreamingJsonParser<any>();
+    const items = collect(parser.watch("/items/*"));
+    parser.write('{"items": [1, ');
+    parser.error(new Error("socket closed"));
+    await expect(items).rejects.toThrow("socket closed");
+    await expect(parser.getFullResponse()).rejects.toThrow("socket closed");
+  });
+
+  it("should throw when written to after the input was ended", () => {
+    const parser = new PushStreamingJsonParser();
+    parser.end();
+    expect(() => parser.write("{}")).toThrow("Cannot call write() after the input was ended");
+    expect(() => parser.end()).toThrow();
+    expect(() => parser.error(new Error("late"))).toThrow();
+  });
+
+  it("should ignore chunks written after a syntax error", async () => {
+    const parser = new PushStreamingJsonParser();
+    parser.write('{"a": ]');
+    await expect(parser.getFullResponse()).rejects.toMatchObject({ code: "MISMATCHED_CLOSING_BRACKET" });
+    expect(() => parser.write("more")).not.toThrow();
+    expect(() => parser.end()).not.toThrow();
+  });
+
+  it("should pass options through", async () => {
+    const parser = new PushStreamingJsonParser({ multiDocument: true });
+    parser.write('{"n": 1}\n{"n"');
+    parser.write(": 2}\n");
+    parser.end();
+    expect(await parser.getFullResponse()).toEqual([{ n: 1 }, { n: 2 }]);
+  });
+});
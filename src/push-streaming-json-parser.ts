@@ -0,0 +1,92 @@
+import { StreamingJsonParser, type StreamingJsonParserOptions } from './streaming-json-parser';
+import type { StreamChunk } from './types';
+import { normalizeChunk, type JsonSourceChunk } from './utils/stream-source';
+
+/**
+ * A StreamingJsonParser fed by pushing chunks instead of reading a stream, for
+ * WebSocket frames, worker messages or callback-based SDKs. Consumers use
+ * `watch()`, `readPartial()`, `getFullResponse()` and the other methods as usual.
+ *
+ * Written chunks are queued until the consumers read them. Syntax errors are
+ * reported to the consumers; chunks written after one are ignored.
+ *
+ * @example
+ * ```typescript
+ * const parser = new PushStreamingJsonParser();
+ * socket.onmessage = (event) => parser.write(event.data);
+ * socket.onclose = () => parser.end();
+ * socket.onerror = () => parser.error(new Error('Connection lost'));
+ *
+ * for await (const item of parser.watch('/items/*')) {
+ *   console.log('Item:', item);
+ * }
+ * ```
+ */
+export class PushStreamingJsonParser<T = any> extends StreamingJsonParser<T> {
+  private controller: ReadableStreamDefaultController<StreamChunk>;
+  private closed: boolean;
+  private cancelled: boolean;
+
+  constructor(options: StreamingJsonParserOptions = {}) {
+    let controller!: ReadableStreamDefaultController<StreamChunk>;
+    let cancel!: () => void;
+    const stream = new ReadableStream<StreamChunk>({
+      start(streamController) {
+        controller = streamController;
+      },
+      cancel() {
+        cancel();
+      },
+    });
+    super(stream.getReader(), options);
+    this.controller = controller;
+    this.closed = false;
+    this.cancelled = false;
+    cancel = () => {
+      this.cancelled = true;
+    };
+  }
+
+  /**
+   * Pushes the next chunk of JSON text: a string or UTF-8 bytes (`Uint8Array`,
+   * `Buffer`, `ArrayBuffer`). Multi-byte characters may be split across chunks.
+   * @throws Error after `end()` or `error()`
+   */
+  write(chunk: JsonSourceChunk): void {
+    this.assertOpen('write()');
+    if (!this.cancelled) {
+      this.controller.enqueue(normalizeChunk(chunk));
+    }
+  }
+
+  /**
+   * Signals the end of the input. Consumers finish once the written chunks are parsed.
+   * @throws Error after `end()` or `error()`
+   */
+  end(): void {
+    this.assertOpen('end()');
+    this.closed = true;
+    if (!this.cancelled) {
+      this.controller.close();
+    }
+  }
+
+  /**
+   * Fails the input: every consumer rejects with `reason`, including chunks
+   * written before that were not parsed yet.
+   * @throws Error after `end()` or `error()`
+   */
+  error(reason: unknown): void {
+    this.assertOpen('error()');
+    this.closed = true;
+    if (!this.cancelled) {
+      this.controller.error(reason);
+    }
+  }
+
+  private assertOpen(method: string): void {
+    if (this.closed) {
+      throw new Error(`Cannot call ${method} after the input was ended`);
+    }
+  }
+}
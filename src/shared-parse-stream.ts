@@ -0,0 +1,474 @@
+import {
+  IncrementalParser,
+  getOpenStringPointer,
+  type IncrementalParserOptions,
+} from './incremental-json-parser';
+import type { JsonParseEvent, JsonParserCheckpoint, JsonRepair } from './types';
+import { encodeJsonPointerSegment } from './utils/json-pointer';
+import { decodeStreamChunk, createStreamDecoder } from './utils/text-decoder';
+import { JsonPayloadScanner } from './utils/payload-scanner';
+import { normalizeError } from './utils/error-utils';
+import { createAbortError, getAbortReason, type CancelOptions } from './utils/abort';
+
+/**
+ * Everything the parser produced for a single chunk read from the source
+ */
+export interface ParseBatch {
+  /** Snapshots in the order they were produced */
+  updates: any[];
+  /** Document index of each update in multi-document mode, empty otherwise */
+  documents: number[];
+  /**
+   * Structures whose closing delimiter was parsed, with snapshot identity, and other
+   * completed values that are objects (such as dates produced by the parser options)
+   */
+  closedStructures: any[];
+  /**
+   * SAX-style events for the chunk. Events of a replay batch are synthesized
+   * from the parsed state and carry an offset of -1.
+   */
+  events: JsonParseEvent[];
+  /**
+   * Set on the batch describing the state restored from a checkpoint, which
+   * watchers resuming a job use to tell what they already yielded
+   */
+  restored?: boolean;
+}
+
+/**
+ * Options for controlling SharedParseStream behavior
+ */
+export interface SharedParseStreamOptions
+  extends Omit<IncrementalParserOptions, 'onEvent' | 'buildTree'> {
+  /**
+   * Whether late subscribers first receive a batch describing everything parsed so far.
+   * Disable to stop tracking closed structures when memory is constrained;
+   * late subscribers then only see data parsed after they subscribed.
+   * @default true
+   */
+  replay?: boolean;
+
+  /**
+   * Whether to parse only the JSON payload embedded in the stream: text before it
+   * (prose, Markdown code fences, XSSI prefixes such as `)]}'`) and after the root
+   * value closes is skipped. The contents of a code fence are preferred to brackets
+   * in prose (see `JsonPayloadScanner`). Offsets and positions reported by events
+   * and errors then count from the start of the payload.
+   * @default false
+   */
+  extractPayload?: boolean;
+
+  /**
+   * State saved by `checkpoint()` to resume from. The reader must be positioned
+   * at the checkpoint's `offset` in the source.
+   */
+  checkpoint?: JsonParserCheckpoint;
+
+  /**
+   * Aborting stops parsing: the source is cancelled and every subscriber rejects
+   * with the signal's reason
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for subscribing to a SharedParseStream
+ */
+export interface SubscribeOptions extends CancelOptions {
+  /** Whether to start with the batch describing the state restored from a checkpoint, if any */
+  restored?: boolean;
+  /**
+   * Whether the subscriber only lets the source be read while it waits for data.
+   * By default subscribers let the source be read ahead until they unsubscribe.
+   */
+  backpressure?: boolean;
+  /**
+   * Array to queue the batches in. The subscriber removes the batches from it
+   * itself, at any time, and the generator yields the first one while it is not empty.
+   */
+  queue?: ParseBatch[];
+}
+
+interface Subscriber {
+  queue: ParseBatch[];
+  wake: (() => void) | null;
+  eager: boolean;
+}
+
+/**
+ * Returns true when the snapshot only exists to publish a string that is still open
+ */
+export const isPartialUpdate = (update: any): boolean => {
+  return getOpenStringPointer(update) !== null;
+};
+
+/**
+ * Returns true for the arrays and objects built by the parser, false for values
+ * such as dates, maps or class instances produced by revivers and factories
+ */
+const isParsedContainer = (value: any): boolean => {
+  if (Array.isArray(value)) {
+    return true;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Reads a stream with a single parser and fans every batch out to any number of
+ * subscribers, so that concurrent consumers all see the complete stream.
+ *
+ * The source is only read while at least one subscriber is waiting for data or
+ * reads ahead (the default, unless it subscribes with `backpressure`).
+ * Partial strings are always published; subscribers that do not want them skip
+ * updates for which `isPartialUpdate()` returns true.
+ */
+export class SharedParseStream {
+  private reader: ReadableStreamDefaultReader<Uint8Array | string>;
+  private parser: IncrementalParser;
+  private decoder = createStreamDecoder();
+  private subscribers = new Set<Subscriber>();
+  private events: JsonParseEvent[] = [];
+  private pumping: Promise<void> | null = null;
+  private closed: WeakSet<object> | null;
+  private scanner: JsonPayloadScanner | null;
+  private multiDocument: boolean;
+  private keepDocuments: boolean;
+  private restored: ParseBatch | null = null;
+  private detachSignal: (() => void) | null = null;
+
+  /** Latest snapshot, including partial string updates */
+  latest: any = undefined;
+  /** Latest snapshot that does not contain an open string */
+  latestComplete: any = undefined;
+  /** Index of the document the latest snapshot belongs to in multi-document mode */
+  latestDocument = 0;
+  /** Final parsed value once the stream has ended */
+  result: any = undefined;
+  done = false;
+  error: Error | null = null;
+  /** Repairs applied so far in repair mode */
+  repairs: JsonRepair[] = [];
+
+  constructor(
+    reader: ReadableStreamDefaultReader<Uint8Array | string>,
+    options: SharedParseStreamOptions = {}
+  ) {
+    const { replay = true, extractPayload = false, checkpoint, signal, ...parserOptions } = options;
+    this.reader = reader;
+    this.closed = replay ? new WeakSet() : null;
+    this.scanner = extractPayload ? new JsonPayloadScanner({ syntax: parserOptions.syntax }) : null;
+    this.multiDocument = parserOptions.multiDocument ?? false;
+    this.keepDocuments = parserOptions.keepDocuments ?? true;
+    this.parser = new IncrementalParser({
+      ...parserOptions,
+      partialStrings: true,
+      onEvent: (event) => this.events.push(event),
+      onRepair: (repair) => {
+        this.repairs.push(repair);
+        parserOptions.onRepair?.(repair);
+      },
+    });
+    if (checkpoint) {
+      this.restore(checkpoint);
+    }
+    if (signal?.aborted) {
+      this.cancel(getAbortReason(signal));
+    } else if (signal) {
+      const onAbort = () => this.cancel(getAbortReason(signal));
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.detachSignal = () => signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Saves the parser state after the latest batch
+   * @throws Error when the payload is extracted from surrounding text, since
+   *   parser offsets then do not match source offsets
+   */
+  checkpoint(): JsonParserCheckpoint {
+    if (this.scanner) {
+      throw new Error("Checkpoints are not supported with extractPayload");
+    }
+    return this.parser.checkpoint();
+  }
+
+  private restore(checkpoint: JsonParserCheckpoint): void {
+    if (this.scanner) {
+      throw new Error("Checkpoints are not supported with extractPayload");
+    }
+    this.parser.restore(checkpoint);
+    const closed = new WeakSet<object>(this.parser.closedStructures);
+    this.publish();
+    this.restored = this.createReplayBatch(closed);
+    if (this.restored) {
+      this.restored.restored = true;
+    }
+  }
+
+  /**
+   * Subscribes to every batch parsed from now on.
+   * When replay is enabled and parsing has already started, the first batch
+   * describes the state parsed so far.
+   * Unsubscribes automatically when the returned generator finishes.
+   * Aborting the `signal` rejects this subscriber only, unless it cancels the source:
+   * with `cancelSource`, or by default when no other subscriber is left.
+   */
+  async *subscribe(options: SubscribeOptions = {}): AsyncGenerator<ParseBatch, void, unknown> {
+    const { signal } = options;
+    const subscriber: Subscriber = { queue: options.queue ?? [], wake: null, eager: !options.backpressure };
+    const onAbort = () => this.wake(subscriber);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    this.subscribers.add(subscriber);
+    if (options.restored && this.restored) {
+      subscriber.queue.push(this.restored);
+    }
+    const replay = this.closed && this.createReplayBatch(this.closed);
+    if (replay) {
+      subscriber.queue.push(replay);
+    }
+    let finished = false;
+    try {
+      while (true) {
+        if (signal?.aborted) {
+          throw getAbortReason(signal);
+        }
+        if (subscriber.queue.length > 0) {
+          yield options.queue ? subscriber.queue[0] : subscriber.queue.shift()!;
+          continue;
+        }
+        if (this.error) {
+          throw this.error;
+        }
+        if (this.done) {
+          finished = true;
+          return;
+        }
+        const wait = new Promise<void>((resolve) => {
+          subscriber.wake = resolve;
+        });
+        this.ensurePumping();
+        await wait;
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      this.subscribers.delete(subscriber);
+      // By default the source is cancelled once nobody reads it anymore
+      const cancelSource = options.cancelSource ?? this.subscribers.size === 0;
+      if (cancelSource && !finished) {
+        this.cancel(signal?.aborted ? getAbortReason(signal) : createAbortError('The source was cancelled'));
+      }
+    }
+  }
+
+  /**
+   * Waits until the whole stream has been parsed
+   */
+  async drain(options: CancelOptions = {}): Promise<void> {
+    for await (const _ of this.subscribe(options)) {
+      // Batches are consumed by other subscribers
+    }
+  }
+
+  /**
+   * Builds a batch equivalent to everything parsed so far: the latest complete
+   * and partial snapshots, every structure that has been closed in them and
+   * the events that produced them. In multi-document mode the documents
+   * finished before the latest one are described first, unless they are not kept.
+   */
+  private createReplayBatch(closed: WeakSet<object>): ParseBatch | null {
+    if (this.latest === undefined) {
+      return null;
+    }
+    const multiDocument = this.multiDocument;
+    const openString = getOpenStringPointer(this.latest);
+    const updates: any[] = [];
+    const documents: number[] = [];
+    const closedStructures: any[] = [];
+    const events: JsonParseEvent[] = [];
+    const offset = -1;
+    let document = 0;
+    const emit = (event: JsonParseEvent): void => {
+      if (multiDocument) {
+        event.document = document;
+      }
+      events.push(event);
+    };
+    const visit = (node: any, path: string): void => {
+      if (node === null || typeof node !== 'object' || !isParsedContainer(node)) {
+        if (path !== openString) {
+          emit({ type: 'value', value: node, path, offset });
+        }
+        if (node !== null && typeof node === 'object' && closed.has(node)) {
+          closedStructures.push(node);
+        }
+        return;
+      }
+      const isArray = Array.isArray(node);
+      emit({ type: isArray ? 'startArray' : 'startObject', path, offset });
+      for (const key of Object.keys(node)) {
+        const childPath = path + '/' + encodeJsonPointerSegment(key);
+        if (!isArray) {
+          emit({ type: 'key', key, path: childPath, offset });
+        }
+        visit(node[key], childPath);
+      }
+      if (closed.has(node)) {
+        closedStructures.push(node);
+        emit({ type: isArray ? 'endArray' : 'endObject', path, offset, value: node });
+      }
+    };
+    const addUpdate = (update: any): void => {
+      updates.push(update);
+      if (multiDocument) {
+        documents.push(document);
+      }
+    };
+
+    if (multiDocument && !this.keepDocuments) {
+      document = this.latestDocument;
+    } else if (multiDocument) {
+      for (; document < this.latestDocument; document++) {
+        const finished = this.parser.documents[document];
+        visit(finished, '');
+        addUpdate(finished);
+      }
+    }
+    visit(this.latest, '');
+    if (this.latestComplete !== undefined && this.latestComplete !== this.latest) {
+      addUpdate(this.latestComplete);
+    }
+    addUpdate(this.latest);
+    return { updates, documents, closedStructures, events };
+  }
+
+  private ensurePumping(): void {
+    if (!this.pumping && !this.done && !this.error) {
+      this.pumping = this.pump().finally(() => {
+        this.pumping = null;
+        // Subscribers may have started waiting after the loop stopped
+        if (this.shouldRead()) {
+          this.ensurePumping();
+        }
+      });
+    }
+  }
+
+  /**
+   * Whether a subscriber is waiting for data or reads ahead
+   */
+  private shouldRead(): boolean {
+    for (const subscriber of this.subscribers) {
+      if (subscriber.wake || subscriber.eager) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * The single read loop. Runs while anyone is waiting for data or reads ahead.
+   */
+  private async pump(): Promise<void> {
+    try {
+      while (this.shouldRead() && !this.done && !this.error) {
+        const { done, value } = await this.reader.read();
+        if (this.error) {
+          // Aborted while reading
+          return;
+        }
+        if (done) {
+          if (this.scanner) {
+            this.parser.feed(this.scanner.end());
+          }
+          this.result = this.parser.end();
+          this.done = true;
+        } else {
+          const text = decodeStreamChunk(value, this.decoder);
+          this.parser.feed(this.scanner ? this.scanner.push(text) : text);
+        }
+        this.publish();
+      }
+      if (this.done) {
+        this.detachSignal?.();
+      }
+    } catch (error) {
+      this.abort(normalizeError(error));
+    }
+  }
+
+  /**
+   * Stops parsing on request: like `abort()`, but batches the subscribers have
+   * not received yet are dropped
+   */
+  private cancel(reason: Error): void {
+    if (this.done || this.error) {
+      return;
+    }
+    for (const subscriber of this.subscribers) {
+      subscriber.queue.length = 0;
+    }
+    this.abort(reason);
+  }
+
+  /**
+   * Fails every subscriber with `reason` once it has received the batches
+   * already parsed, and cancels the source, unless the stream has already ended
+   */
+  private abort(reason: Error): void {
+    if (this.done || this.error) {
+      return;
+    }
+    this.error = reason;
+    this.detachSignal?.();
+    // Lets the source release its resources; fails harmlessly when the source itself failed
+    this.reader.cancel(reason).catch(() => {});
+    this.wakeAll();
+  }
+
+  private publish(): void {
+    const batch: ParseBatch = {
+      updates: this.parser.collectUpdates(),
+      documents: this.parser.collectUpdateDocuments(),
+      closedStructures: this.parser.collectClosedStructures(),
+      events: this.events,
+    };
+    this.events = [];
+
+    if (this.closed) {
+      for (const closedStructure of batch.closedStructures) {
+        if (closedStructure !== null && typeof closedStructure === 'object') {
+          this.closed.add(closedStructure);
+        }
+      }
+    }
+
+    for (let i = 0; i < batch.updates.length; i++) {
+      const update = batch.updates[i];
+      this.latest = update;
+      this.latestDocument = batch.documents[i] ?? 0;
+      if (!isPartialUpdate(update)) {
+        this.latestComplete = update;
+      }
+    }
+
+    for (const subscriber of this.subscribers) {
+      subscriber.queue.push(batch);
+    }
+    this.wakeAll();
+  }
+
+  private wakeAll(): void {
+    for (const subscriber of this.subscribers) {
+      this.wake(subscriber);
+    }
+  }
+
+  private wake(subscriber: Subscriber): void {
+    const wake = subscriber.wake;
+    subscriber.wake = null;
+    if (wake) {
+      wake();
+    }
+  }
+}
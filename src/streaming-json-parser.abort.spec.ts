@@ -0,0 +1,287 @@
+import { describe, it, expect } from "vitest";
+import {
+  StreamingJsonParser,
+  createSSEJsonStreamingParser,
+  createObjectStreamingParser,
+  incrementalJsonParser,
+  SSEJsonExtractors,
+  ObjectStreamExtractors,
+} from "./index";
+import { collect } from "./utils/test-helpers/collect";
+import { tick } from "./utils/test-helpers/tick";
+import { createStallingSource } from "./utils/test-helpers/create-stalling-source";
+
+const chunks = ['{"items": [', '{"id": 1}, ', '{"id": 2}, ', '{"id": 3}'];
+
+describe("parser signal", () => {
+  it("rejects every consumer and cancels the source on abort", async () => {
+    const { stream, source } = createStallingSource(chunks);
+    const controller = new AbortController();
+    const parser = new StreamingJsonParser(stream.getReader(), { signal: controller.signal });
+
+    const items: any[] = [];
+    const watched = (async () => {
+      for await (const item of parser.watchComplete("/items/*")) {
+        items.push(item);
+        if (items.length === 2) {
+          controller.abort();
+        }
+      }
+    })();
+    const full = parser.getFullResponse();
+
+    await expect(watched).rejects.toMatchObject({ name: "AbortError" });
+    await expect(full).rejects.toMatchObject({ name: "AbortError" });
+    expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(source.cancelled).toBe(true);
+    expect(source.reason).toMatchObject({ name: "AbortError" });
+  });
+
+  it("rejects pending reads of a stalled source", async () => {
+    const { stream, source } = createStallingSource(['{"a": ']);
+    const controller = new AbortController();
+    const parser = new StreamingJsonParser(stream.getReader(), { signal: controller.signal });
+
+    const full = parser.getFullResponse();
+    await tick();
+    controller.abort(new Error("user left the page"));
+    await expect(full).rejects.toThrow("user left the page");
+    await expect(collect(parser.readPartial())).rejects.toThrow("user left the page");
+    expect(source.cancelled).toBe(true);
+  });
+
+  it("does not read a source whose signal is already aborted", async () => {
+    const { stream, source } = createStallingSource(chunks);
+    const parser = new StreamingJsonParser(stream.getReader(), { signal: AbortSignal.abort() });
+    await expect(parser.getFullResponse()).rejects.toMatchObject({ name: "AbortError" });
+    expect(source.reads).toBe(0);
+    expect(source.cancelled).toBe(true);
+  });
+
+  it("is ignored once the stream has ended", async () => {
+    const { stream, source } = createStallingSource(["[1, 2]"], false);
+    const controller = new AbortController();
+    const parser = new StreamingJsonParser(stream.getReader(), { signal: controller.signal });
+    expect(await parser.getFullResponse()).toEqual([1, 2]);
+    controller.abort();
+    expect(await parser.getFullResponse()).toEqual([1, 2]);
+    expect(source.cancelled).toBe(false);
+  });
+});
+
+describe("consumer signals", () => {
+  it("only reject the aborted consumer", async () => {
+    const { stream, source } = createStallingSource(chunks.concat("]}"), false);
+    const parser = new StreamingJsonParser(stream.getReader());
+    const full = parser.getFullResponse();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(collect(parser.watch("/items/*", { signal: controller.signal }))).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    await expect(parser.querySelector("/items", { signal: controller.signal })).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    expect(await full).toEqual({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+    expect(source.cancelled).toBe(false);
+  });
+
+  it("cancel the source when the last consumer is aborted", async () => {
+    const { stream, source } = createStallingSource(chunks);
+    const parser = new StreamingJsonParser(stream.getReader());
+    const controller = new AbortController();
+    const items = collect(parser.watchComplete("/items/*", { signal: controller.signal }));
+    await tick();
+    controller.abort();
+    await expect(items).rejects.toMatchObject({ name: "AbortError" });
+    expect(source.cancelled).toBe(true);
+  });
+
+  it("reject getFullResponse while waiting for data", async () => {
+    const { stream } = createStallingSource(chunks);
+    const parser = new StreamingJsonParser(stream.getReader());
+    const controller = new AbortController();
+    const full = parser.getFullResponse({ signal: controller.signal });
+    await tick();
+    controller.abort();
+    await expect(full).rejects.toMatchObject({ name: "AbortError" });
+    expect(parser.getCurrentSnapshot()).toEqual({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+  });
+
+  it("reject node values", async () => {
+    const { stream } = createStallingSource(chunks);
+    const parser = new StreamingJsonParser(stream.getReader());
+    const node = await parser.querySelector("/items");
+    const controller = new AbortController();
+    const value = node!.getValue({ signal: controller.signal });
+    await tick();
+    controller.abort();
+    await expect(value).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("cancel the source with cancelSource", async () => {
+    const { stream, source } = createStallingSource(chunks);
+    const parser = new StreamingJsonParser(stream.getReader());
+    const controller = new AbortController();
+    const texts = collect(parser.watchText("/title", { signal: controller.signal, cancelSource: true }));
+    const full = parser.getFullResponse();
+    await tick();
+    controller.abort();
+    await expect(texts).rejects.toMatchObject({ name: "AbortError" });
+    await expect(full).rejects.toMatchObject({ name: "AbortError" });
+    expect(source.cancelled).toBe(true);
+  });
+});
+
+describe("early return", () => {
+  it("cancels the source by default once the last consumer stops", async () => {
+    const { stream, source } = createStallingSource(chunks);
+    const parser = new StreamingJsonParser(stream.getReader());
+    for await (const item of parser.watchComplete("/items/*")) {
+      expect(item).toEqual({ id: 1 });
+      break;
+    }
+    expect(source.cancelled).toBe(true);
+    await expect(parser.getFullResponse()).rejects.toThrow("The source was cancelled");
+  });
+
+  it("leaves the stream to later consumers after first(), take() and until() by default", async () => {
+    const { stream, source } = createStallingSource(chunks.concat("]}"), false);
+    const parser = new StreamingJsonParser<any>(stream.getReader());
+    expect(await parser.first("/items/0")).toEqual({ id: 1 });
+    expect(await parser.take("/items/*", 2)).toEqual([{ id: 1 }, { id: 2 }]);
+    expect((await parser.until((data) => data.items?.length === 3))!.items[2]).toEqual({ id: 3 });
+    expect(source.cancelled).toBe(false);
+    expect(await collect(parser.watch("/items/*"))).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(await parser.getFullResponse()).toEqual({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+  });
+
+  it("keeps reading while other consumers read the stream", async () => {
+    const { stream, source } = createStallingSource(chunks.concat("]}"), false);
+    const parser = new StreamingJsonParser(stream.getReader());
+    const full = parser.getFullResponse();
+    for await (const item of parser.watchComplete("/items/*")) {
+      expect(item).toEqual({ id: 1 });
+      break;
+    }
+    expect(await full).toEqual({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+    expect(source.cancelled).toBe(false);
+  });
+
+  it("keeps reading with cancelSource: false so that later consumers see the stream", async () => {
+    const { stream, source } = createStallingSource(chunks.concat("]}"), false);
+    const parser = new StreamingJsonParser(stream.getReader());
+    for await (const item of parser.watchComplete("/items/*", { cancelSource: false })) {
+      expect(item).toEqual({ id: 1 });
+      break;
+    }
+    expect(await parser.getFullResponse()).toEqual({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+    expect(source.cancelled).toBe(false);
+  });
+
+  it("cancels the source with cancelSource even while other consumers read it", async () => {
+    const { stream, source } = createStallingSource(chunks);
+    const parser = new StreamingJsonParser(stream.getReader());
+    const full = parser.getFullResponse();
+    for await (const item of parser.watchComplete("/items/*", { cancelSource: true })) {
+      expect(item).toEqual({ id: 1 });
+      break;
+    }
+    expect(source.cancelled).toBe(true);
+    await expect(full).rejects.toThrow("The source was cancelled");
+  });
+
+  it("cancels the source when a readable stream is cancelled with cancelSource", async () => {
+    const { stream, source } = createStallingSource(chunks);
+    const parser = new StreamingJsonParser(stream.getReader());
+    const reader = parser.toReadableStream("/items/*", { waitForStructuralCompletion: true, cancelSource: true }).getReader();
+    expect((await reader.read()).value).toEqual({ id: 1 });
+    await reader.cancel();
+    expect(source.cancelled).toBe(true);
+  });
+
+  it("cancels the reader of incrementalJsonParser when iteration stops", async () => {
+    const { stream, source } = createStallingSource(chunks);
+    for await (const snapshot of incrementalJsonParser<any>(stream.getReader())) {
+      if (snapshot.items?.length) {
+        break;
+      }
+    }
+    expect(source.cancelled).toBe(true);
+  });
+
+  it("leaves the reader of incrementalJsonParser open with cancelSource: false", async () => {
+    const { stream, source } = createStallingSource(chunks);
+    for await (const snapshot of incrementalJsonParser<any>(stream.getReader(), { cancelSource: false })) {
+      if (snapshot.items?.length) {
+        break;
+      }
+    }
+    expect(source.cancelled).toBe(false);
+  });
+
+  it("rejects incrementalJsonParser on abort", async () => {
+    const { stream, source } = createStallingSource(['{"a": ']);
+    const controller = new AbortController();
+    const snapshots = collect(incrementalJsonParser(stream.getReader(), { signal: controller.signal }));
+    await tick();
+    controller.abort();
+    await expect(snapshots).rejects.toMatchObject({ name: "AbortError" });
+    expect(source.cancelled).toBe(true);
+  });
+});
+
+describe("adapters", () => {
+  it("cancel the SSE stream on abort", async () => {
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    const sseStream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const content = JSON.stringify({ choices: [{ delta: { content: '{"answer": "' } }] });
+        controller.enqueue(encoder.encode(`data: ${content}\n\n`));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const controller = new AbortController();
+    const parser = createSSEJsonStreamingParser(sseStream, {
+      ...SSEJsonExtractors.openAIChatCompletions,
+      signal: controller.signal,
+    });
+    const full = parser.getFullResponse();
+    await tick();
+    controller.abort();
+    await expect(full).rejects.toMatchObject({ name: "AbortError" });
+    await tick();
+    expect(cancelled).toBe(true);
+  });
+
+  it("return the object stream on abort", async () => {
+    let finished = false;
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    async function* generate() {
+      try {
+        yield { choices: [{ delta: { content: '{"answer": ' } }] };
+        await released;
+        yield { choices: [{ delta: { content: "42}" } }] };
+      } finally {
+        finished = true;
+      }
+    }
+    const controller = new AbortController();
+    const parser = createObjectStreamingParser(generate(), {
+      ...ObjectStreamExtractors.openAIChatCompletions,
+      signal: controller.signal,
+    });
+    const full = parser.getFullResponse();
+    await tick();
+    controller.abort();
+    await expect(full).rejects.toMatchObject({ name: "AbortError" });
+    release();
+    await tick();
+    expect(finished).toBe(true);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from "vitest";
+import { StreamingJsonParser, type StreamingJsonParserOptions } from "./streaming-json-parser";
+import type { JsonParserCheckpoint } from "./types";
+
+/** Collects the values yielded before the simulated crash */
+async function collectUntilCrash<V>(iterable: AsyncIterable<V>): Promise<V[]> {
+  const results: V[] = [];
+  try {
+    for await (const value of iterable) {
+      results.push(value);
+    }
+  } catch (error) {
+    if ((error as Error).message !== "connection lost") {
+      throw error;
+    }
+  }
+  return results;
+}
+
+/**
+ * Streams the UTF-8 bytes of `text` from `start` in chunks, failing after
+ * `end` bytes to simulate a crash
+ */
+function createByteReader(text: string, start: number, end = Infinity, chunkSize = 7) {
+  const bytes = new TextEncoder().encode(text).slice(start, end);
+  let position = 0;
+  return new ReadableStream<Uint8Array>({
+    // Erroring the stream discards queued chunks, so they are enqueued on demand
+    pull(controller) {
+      if (position < bytes.length) {
+        controller.enqueue(bytes.slice(position, position + chunkSize));
+        position += chunkSize;
+      } else if (end === Infinity) {
+        controller.close();
+      } else {
+        controller.error(new Error("connection lost"));
+      }
+    },
+  }).getReader();
+}
+
+/**
+ * Runs `consume` on a parser that crashes after `split` bytes, then on a parser
+ * resumed from its checkpoint, and returns both results
+ */
+async function crashAndResume<R>(
+  text: string,
+  split: number,
+  consume: (parser: StreamingJsonParser, resumed: boolean) => Promise<R>,
+  options: StreamingJsonParserOptions = {}
+) {
+  const first = new StreamingJsonParser(createByteReader(text, 0, split), options);
+  const before = await consume(first, false);
+  const checkpoint: JsonParserCheckpoint = JSON.parse(JSON.stringify(first.checkpoint()));
+  const second = new StreamingJsonParser(createByteReader(text, checkpoint.offset), { ...options, checkpoint });
+  const after = await consume(second, true);
+  return { before, after, parser: second };
+}
+
+/**
+ * Handles the first `count` results of the watcher, taking a checkpoint after each
+ * one, then stops and handles the rest on a parser resumed from the last checkpoint
+ */
+async function stopAndResume<R>(
+  text: string,
+  count: number,
+  watch: (parser: StreamingJsonParser, resume: boolean) => AsyncIterable<R>
+) {
+  const first = new StreamingJsonParser(createByteReader(text, 0, Infinity, 64));
+  const before: R[] = [];
+  let checkpoint: JsonParserCheckpoint | null = null;
+  for await (const result of watch(first, false)) {
+    before.push(result);
+    checkpoint = JSON.parse(JSON.stringify(first.checkpoint()));
+    if (before.length >= count) {
+      break;
+    }
+  }
+  const second = new StreamingJsonParser(createByteReader(text, checkpoint!.offset, Infinity, 64), { checkpoint: checkpoint! });
+  const after = await collectUntilCrash(watch(second, true));
+  return [...before, ...after];
+}
+
+describe("StreamingJsonParser checkpoints", () => {
+  const json = JSON.stringify({
+    title: "Résumé of the day",
+    items: [{ id: 1, tags: ["a"] }, { id: 2, tags: [] }, { id: 3, tags: ["b", "c"] }],
+    done: true,
+  });
+  const length = new TextEncoder().encode(json).length;
+
+  it("resumes watchComplete without yielding anything twice", async () => {
+    for (let split = 0; split <= length; split += 3) {
+      const { before, after } = await crashAndResume(json, split, (parser, resume) =>
+        collectUntilCrash(parser.watchComplete("/items/*", { resume }))
+      );
+      expect([...before, ...after], `split at ${split}`).toEqual(JSON.parse(json).items);
+    }
+  });
+
+  it("resumes watch without yielding anything twice", async () => {
+    for (let split = 0; split <= length; split += 3) {
+      const { before, after } = await crashAndResume(json, split, (parser, resume) =>
+        collectUntilCrash(parser.watch("/items/*/id", { resume }))
+      );
+      expect([...before, ...after], `split at ${split}`).toEqual([1, 2, 3]);
+    }
+  });
+
+  it("resumes watchText where the text stopped", async () => {
+    for (let split = 0; split <= length; split += 2) {
+      const { before, after } = await crashAndResume(json, split, (parser, resume) =>
+        collectUntilCrash(parser.watchText("/title", { resume }))
+      );
+      const deltas = [...before, ...after];
+      expect(deltas.map((d) => d.delta).join(""), `split at ${split}`).toBe("Résumé of the day");
+      expect(deltas.filter((d) => d.done)).toHaveLength(1);
+    }
+  });
+
+  it("resumes watchPartial without repeating finished values", async () => {
+    for (let split = 0; split <= length; split += 3) {
+      const { before, after } = await crashAndResume(json, split, (parser, resume) =>
+        collectUntilCrash(parser.watchPartial("/items/*", { resume }))
+      );
+      const finished = [...before, ...after].filter((match) => match.done);
+      expect(finished.map((match) => match.value), `split at ${split}`).toEqual(JSON.parse(json).items);
+    }
+  });
+
+  it("resumes watch when the checkpoint is taken inside a string", async () => {
+    const text = JSON.stringify({ items: [{ id: 1, note: "first note" }, { id: 2, note: "second" }, { id: 3 }] });
+    for (let split = 0; split <= text.length; split++) {
+      const { before, after } = await crashAndResume(text, split, (parser, resume) =>
+        collectUntilCrash(parser.watch("/items/*/id", { resume }))
+      );
+      expect([...before, ...after], `split at ${split}`).toEqual([1, 2, 3]);
+    }
+  });
+
+  describe("taken after handling each result", () => {
+    const items = Array.from({ length: 20 }, (_, id) => ({ id, note: `note number ${id}` }));
+    const text = JSON.stringify({ items });
+
+    it("resumes watchComplete without losing results read ahead", async () => {
+      for (let count = 1; count < items.length; count++) {
+        const results = await stopAndResume(text, count, (parser, resume) =>
+          parser.watchComplete("/items/*", { resume })
+        );
+        expect(results, `stopped after ${count}`).toEqual(items);
+      }
+    });
+
+    it("resumes watch without losing results read ahead", async () => {
+      for (let count = 1; count < items.length; count++) {
+        const results = await stopAndResume(text, count, (parser, resume) =>
+          parser.watch("/items/*/id", { resume })
+        );
+        expect(results, `stopped after ${count}`).toEqual(items.map((item) => item.id));
+      }
+    });
+
+    it("resumes watchText without losing deltas read ahead", async () => {
+      for (let count = 1; count < 30; count++) {
+        const deltas = await stopAndResume(text, count, (parser, resume) =>
+          parser.watchText("/items/*/note", { resume })
+        );
+        const notes = items.map((item) =>
+          deltas.filter((d) => d.path === `/items/${item.id}/note`).map((d) => d.delta).join("")
+        );
+        expect(notes, `stopped after ${count}`).toEqual(items.map((item) => item.note));
+        expect(deltas.filter((d) => d.done)).toHaveLength(items.length);
+      }
+    });
+  });
+
+  it("replays the restored matches to watchers that do not resume", async () => {
+    const split = json.indexOf('{"id":3');
+    const { after, parser } = await crashAndResume(json, split, (parser) => collectUntilCrash(parser.watchComplete("/items/*")));
+    expect(after).toEqual(JSON.parse(json).items);
+    expect(await parser.getFullResponse()).toEqual(JSON.parse(json));
+  });
+
+  it("resumes documents in multi-document mode", async () => {
+    const ndjson = '{"n": 1}\n{"n": 2}\n{"n": 3}\n';
+    for (let split = 0; split <= ndjson.length; split++) {
+      const { before, after } = await crashAndResume(
+        ndjson,
+        split,
+        (parser, resume) => collectUntilCrash(parser.watchComplete("/n", { resume })),
+        { multiDocument: true }
+      );
+      expect([...before, ...after], `split at ${split}`).toEqual([
+        { document: 0, value: 1 },
+        { document: 1, value: 2 },
+        { document: 2, value: 3 },
+      ]);
+    }
+  });
+
+  it("rejects checkpoints when the payload is extracted", async () => {
+    const parser = new StreamingJsonParser(createByteReader('Here: {"a": 1}', 0), { extractPayload: true });
+    await parser.getFullResponse();
+    expect(() => parser.checkpoint()).toThrow("extractPayload");
+  });
+});
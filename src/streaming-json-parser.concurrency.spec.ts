@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { StreamingJsonParser } from "./streaming-json-parser";
+import { createJSONReadableStreamDefaultReader } from "./utils/test-helpers/create-json-readable-stream-default-reader";
+import { collect } from "./utils/test-helpers/collect";
+
+describe("StreamingJsonParser concurrent consumers", () => {
+  const json = JSON.stringify({
+    a: [{ id: 1 }, { id: 2 }],
+    b: [{ name: "x" }, { name: "y" }],
+    story: "Once upon a time",
+  });
+
+  it("should let multiple watchers see the complete stream", async () => {
+    const parser = new StreamingJsonParser(createJSONReadableStreamDefaultReader(json, 3));
+
+    const [a, b] = await Promise.all([
+      collect(parser.watchComplete("/a/*")),
+      collect(parser.watch("/b/*/name")),
+    ]);
+
+    expect(a).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(b).toEqual(["x", "y"]);
+  });
+
+  it("should run watch, readPartial and getFullResponse simultaneously", async () => {
+    const parser = new StreamingJsonParser(createJSONReadableStreamDefaultReader(json, 4));
+
+    const [items, partials, full, deltas] = await Promise.all([
+      collect(parser.watch("/a/*")),
+      collect(parser.readPartial()),
+      parser.getFullResponse(),
+      collect(parser.watchText("/story")),
+    ]);
+
+    expect(items[items.length - 1]).toEqual({ id: 2 });
+    expect(partials[partials.length - 1]).toEqual(JSON.parse(json));
+    expect(full).toEqual(JSON.parse(json));
+    expect(deltas.map((d) => d.delta).join("")).toBe("Once upon a time");
+  });
+
+  it("should read the source only once", async () => {
+    let reads = 0;
+    const reader = createJSONReadableStreamDefaultReader(json, 8);
+    const countingReader = {
+      read: () => {
+        reads++;
+        return reader.read();
+      },
+    } as ReadableStreamDefaultReader<string>;
+    const parser = new StreamingJsonParser(countingReader);
+
+    await Promise.all([
+      collect(parser.watch("/a/*")),
+      collect(parser.watch("/b/*")),
+      parser.getFullResponse(),
+    ]);
+
+    expect(reads).toBe(Math.ceil(json.length / 8) + 1);
+  });
+
+  it("should keep reading for other consumers when one stops early", async () => {
+    const parser = new StreamingJsonParser(createJSONReadableStreamDefaultReader(json, 2));
+
+    const first = (async () => {
+      for await (const item of parser.watch("/a/*")) {
+        return item;
+      }
+    })();
+    const [item, full] = await Promise.all([first, parser.getFullResponse()]);
+
+    expect(item).toEqual({});
+    expect(full).toEqual(JSON.parse(json));
+  });
+
+  it("should report errors to every consumer", async () => {
+    const parser = new StreamingJsonParser(createJSONReadableStreamDefaultReader('{"a": [1, }', 3));
+
+    const results = await Promise.allSettled([
+      collect(parser.watch("/a/*")),
+      parser.getFullResponse(),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    await expect(parser.getFullResponse()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
+import { StreamingJsonParser } from "./streaming-json-parser";
+import { incrementalJsonParser } from "./incremental-json-parser";
+import { createJsonStreamReader } from "./utils/stream-source";
+import { collect } from "./utils/test-helpers/collect";
+
+const json = '{"name": "Zoë", "items": [1, 2, 3]}';
+const expected = JSON.parse(json);
+const bytes = new TextEncoder().encode(json);
+
+/** Splits the bytes inside the two-byte "ë" and elsewhere */
+const byteChunks = [bytes.slice(0, 13), bytes.slice(13, 20), bytes.slice(20)];
+
+function createByteStream() {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      byteChunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("StreamingJsonParser.from", () => {
+  it("should accept strings and bytes", async () => {
+    expect(await StreamingJsonParser.from(json).getFullResponse()).toEqual(expected);
+    expect(await StreamingJsonParser.from(bytes).getFullResponse()).toEqual(expected);
+    expect(await StreamingJsonParser.from(Buffer.from(json)).getFullResponse()).toEqual(expected);
+    expect(await StreamingJsonParser.from(bytes.buffer as ArrayBuffer).getFullResponse()).toEqual(expected);
+  });
+
+  it("should accept ReadableStreams and release their lock", async () => {
+    const stream = createByteStream();
+    expect(await StreamingJsonParser.from(stream).getFullResponse()).toEqual(expected);
+    expect(stream.locked).toBe(false);
+  });
+
+  it("should accept stream readers", async () => {
+    const reader = createByteStream().getReader();
+    expect(await StreamingJsonParser.from(reader).getFullResponse()).toEqual(expected);
+  });
+
+  it("should accept async generators of Buffers", async () => {
+    async function* generate() {
+      for (const chunk of byteChunks) {
+        yield Buffer.from(chunk);
+      }
+    }
+    expect(await StreamingJsonParser.from(generate()).getFullResponse()).toEqual(expected);
+  });
+
+  it("should accept sync iterables of chunks", async () => {
+    expect(await StreamingJsonParser.from(['{"name": "Zoë", ', '"items": [1, 2, 3]}']).getFullResponse()).toEqual(
+      expected
+    );
+  });
+
+  it("should accept Node readable streams", async () => {
+    const stream = Readable.from(byteChunks.map((chunk) => Buffer.from(chunk)));
+    const parser = StreamingJsonParser.from(stream);
+    const [items, full] = await Promise.all([collect(parser.watch("/items/*")), parser.getFullResponse()]);
+    expect(items).toEqual([1, 2, 3]);
+    expect(full).toEqual(expected);
+  });
+
+  it("should accept Responses and Blobs", async () => {
+    expect(await StreamingJsonParser.from(new Response(createByteStream())).getFullResponse()).toEqual(expected);
+    expect(await StreamingJsonParser.from(new Blob(byteChunks)).getFullResponse()).toEqual(expected);
+  });
+
+  it("should pass options through", async () => {
+    const parser = StreamingJsonParser.from('{"a": 1}\n{"a": 2}\n', { multiDocument: true });
+    expect(await parser.getFullResponse()).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it("should clean up generators when parsing fails", async () => {
+    let finished = false;
+    async function* generate() {
+      try {
+        yield '{"a": ]';
+        yield "never read";
+      } finally {
+        finished = true;
+      }
+    }
+    await expect(StreamingJsonParser.from(generate()).getFullResponse()).rejects.toMatchObject({
+      code: "MISMATCHED_CLOSING_BRACKET",
+    });
+    expect(finished).toBe(true);
+  });
+
+  it("should destroy Node streams when parsing fails", async () => {
+    const stream = Readable.from(['{"a": ]', "more"]);
+    await expect(StreamingJsonParser.from(stream).getFullResponse()).rejects.toThrow();
+    expect(stream.destroyed).toBe(true);
+  });
+
+  it("should release the lock when the source fails", async () => {
+    const stream = new ReadableStream<string>({
+      start(controller) {
+        controller.enqueue('{"a": ');
+        controller.error(new Error("network down"));
+      },
+    });
+    await expect(StreamingJsonParser.from(stream).getFullResponse()).rejects.toThrow("network down");
+    expect(stream.locked).toBe(false);
+  });
+
+  it("should reject unsupported sources and chunks", async () => {
+    expect(() => StreamingJsonParser.from(42 as any)).toThrow(TypeError);
+    await expect(StreamingJsonParser.from([{ not: "text" }] as any).getFullResponse()).rejects.toThrow(
+      "Unsupported JSON stream chunk"
+    );
+  });
+});
+
+describe("createJsonStreamReader", () => {
+  it("should feed incrementalJsonParser from any source", async () => {
+    const snapshots = await collect(incrementalJsonParser(createJsonStreamReader(new Blob(byteChunks))));
+    expect(snapshots[snapshots.length - 1]).toEqual(expected);
+  });
+});
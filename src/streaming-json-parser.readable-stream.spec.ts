@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { StreamingJsonParser } from "./streaming-json-parser";
+import { createJSONReadableStreamDefaultReader } from "./utils/test-helpers/create-json-readable-stream-default-reader";
+import { collectStream } from "./utils/test-helpers/collect";
+import { tick } from "./utils/test-helpers/tick";
+
+/**
+ * Creates an endless array of items, counting how many chunks were pulled from it
+ */
+function createEndlessSource() {
+  const source = { pulls: 0, reader: null as unknown as ReadableStreamDefaultReader<string> };
+  source.reader = new ReadableStream<string>(
+    {
+      pull(controller) {
+        controller.enqueue(source.pulls === 0 ? "[" : `{"id": ${source.pulls}},`);
+        source.pulls++;
+      },
+    },
+    { highWaterMark: 0 }
+  ).getReader();
+  return source;
+}
+
+describe("StreamingJsonParser.toReadableStream", () => {
+  it("should stream the watched values", async () => {
+    const json = JSON.stringify({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+    const parser = new StreamingJsonParser(createJSONReadableStreamDefaultReader(json, 5));
+
+    expect(await collectStream(parser.toReadableStream("/items/*", { waitForStructuralCompletion: true }))).toEqual([
+      { id: 1 },
+      { id: 2 },
+      { id: 3 },
+    ]);
+  });
+
+  it("should compose with pipeThrough", async () => {
+    const json = JSON.stringify({ items: [{ id: 1, ok: true }, { id: 2, ok: false }, { id: 3, ok: true }] });
+    const parser = new StreamingJsonParser(createJSONReadableStreamDefaultReader(json, 7));
+
+    const lines = await collectStream(
+      parser
+        .toReadableStream("/items/*", { waitForStructuralCompletion: true })
+        .pipeThrough(
+          new TransformStream<any, string>({
+            transform(item, controller) {
+              if (item.ok) {
+                controller.enqueue(JSON.stringify(item) + "\n");
+              }
+            },
+          })
+        )
+    );
+
+    expect(lines).toEqual(['{"id":1,"ok":true}\n', '{"id":3,"ok":true}\n']);
+  });
+
+  it("should only read the source as fast as the stream is consumed", async () => {
+    const source = createEndlessSource();
+    const parser = new StreamingJsonParser(source.reader);
+    const reader = parser.toReadableStream("/*/id").getReader();
+
+    expect((await reader.read()).value).toBe(1);
+    expect((await reader.read()).value).toBe(2);
+    await tick();
+    const pulls = source.pulls;
+    expect(pulls).toBeLessThan(8);
+
+    await tick();
+    expect(source.pulls).toBe(pulls);
+
+    await reader.cancel();
+  });
+
+  it("should error the stream when parsing fails", async () => {
+    const parser = new StreamingJsonParser(createJSONReadableStreamDefaultReader('{"items": [1, 2}', 4));
+    await expect(collectStream(parser.toReadableStream("/items/*"))).rejects.toMatchObject({
+      code: "MISMATCHED_CLOSING_BRACKET",
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { StreamingJsonParser } from "./streaming-json-parser";
+import { createJSONReadableStreamDefaultReader } from "./utils/test-helpers/create-json-readable-stream-default-reader";
+import { collect } from "./utils/test-helpers/collect";
+
+describe("StreamingJsonParser replay for late subscribers", () => {
+  const json = JSON.stringify({
+    items: [{ id: 1 }, { id: 2 }, { id: 3 }],
+    story: "Once upon a time",
+  });
+
+  it("should replay completed matches after the stream was fully consumed", async () => {
+    const parser = new StreamingJsonParser(createJSONReadableStreamDefaultReader(json, 5));
+    await parser.getFullResponse();
+
+    expect(await collect(parser.watch("/items/*"))).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(
+      await collect(parser.watch("/items/*", { waitForStructuralCompletion: true }))
+    ).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(await collect(parser.watchText("/story"))).toEqual([
+      { path: "/story", delta: "Once upon a time", done: true },
+    ]);
+  });
+
+  it("should replay already parsed matches and then continue live", async () => {
+    const parser = new StreamingJsonParser(createJSONReadableStreamDefaultReader(json, 4));
+
+    for await (const partial of parser.readPartial({ cancelSource: false })) {
+      if ((partial as any).items?.length === 2) {
+        break;
+      }
+    }
+
+    const items = await collect(parser.watchPartial("/items/*"));
+    const done = items.filter((item) => item.done).map((item) => item.value);
+    expect(done).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(items[0].path).toBe("/items/0");
+  });
+
+  it("should not replay when replay is disabled", async () => {
+    const parser = new StreamingJsonParser(createJSONReadableStreamDefaultReader(json, 5), {
+      replay: false,
+    });
+    await parser.getFullResponse();
+
+    expect(await collect(parser.watch("/items/*"))).toEqual([]);
+    expect(await parser.getFullResponse()).toEqual(JSON.parse(json));
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  incrementalJsonParser,
+  jsonEventParser,
+  StreamingJsonParser,
+  createObjectStreamingParser,
+  createSSEJsonStreamingParser,
+  ObjectStreamExtractors,
+  SSEJsonExtractors,
+  JsonStreamParseError,
+  JsonStreamLimitError,
+} from "./index";
+import { JSONPointerParser } from "./json-pointer-parser";
+import { createJSONReadableStreamDefaultReader } from "./utils/test-helpers/create-json-readable-stream-default-reader";
+import { collect } from "./utils/test-helpers/collect";
+
+// Inputs an attacker controlling the streamed JSON could send
+const attack = '{"__proto__": {"polluted": "yes"}, "constructor": {"prototype": {"polluted": "yes"}}, "items": [{"__proto__": {"admin": true}, "hasOwnProperty": 1, "name": "a"}]}';
+const expected = JSON.parse(attack);
+
+const expectSafe = (value: any) => {
+  expect(value).toEqual(expected);
+  expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+  expect(Object.getPrototypeOf(value.items[0])).toBe(Object.prototype);
+  expect(value.polluted).toBeUndefined();
+  expect(value.items[0].admin).toBeUndefined();
+};
+
+describe("prototype pollution", () => {
+  afterEach(() => {
+    // Nothing may leak into the global prototypes
+    expect(({} as any).polluted).toBeUndefined();
+    expect(({} as any).admin).toBeUndefined();
+  });
+
+  it("incrementalJsonParser builds safe snapshots", async () => {
+    const reader = createJSONReadableStreamDefaultReader(attack, 7);
+    const snapshots = await collect(incrementalJsonParser<any>(reader));
+    for (const snapshot of snapshots) {
+      expect(Object.getPrototypeOf(snapshot)).toBe(Object.prototype);
+      expect(snapshot.polluted).toBeUndefined();
+    }
+    expectSafe(snapshots[snapshots.length - 1]);
+  });
+
+  it("jsonEventParser reports __proto__ keys as plain keys", async () => {
+    const reader = createJSONReadableStreamDefaultReader(attack, 7);
+    const events = await collect(jsonEventParser(reader));
+    const keys = events.filter((e) => e.type === "key").map((e) => e.path);
+    expect(keys).toContain("/__proto__");
+    expect(keys).toContain("/items/0/__proto__");
+  });
+
+  it("StreamingJsonParser watchers, snapshots and the full response are safe", async () => {
+    const reader = createJSONReadableStreamDefaultReader(attack, 5);
+    const parser = new StreamingJsonParser<any>(reader);
+
+    const [watched, complete, partial, partials, full] = await Promise.all([
+      collect(parser.watch("/items/*")),
+      collect(parser.watchComplete("/__proto__")),
+      collect(parser.watchPartial("/items/*")),
+      collect(parser.readPartial()),
+      parser.getFullResponse(),
+    ]);
+
+    expectSafe(full);
+    expectSafe(parser.getCurrentSnapshot());
+    expect(watched[watched.length - 1]).toEqual(expected.items[0]);
+    expect(Object.getPrototypeOf(watched[watched.length - 1])).toBe(Object.prototype);
+    expect(complete).toEqual([{ polluted: "yes" }]);
+    expect(partial[partial.length - 1]).toMatchObject({ done: true, value: expected.items[0] });
+    for (const snapshot of partials) {
+      expect(Object.getPrototypeOf(snapshot)).toBe(Object.prototype);
+    }
+  });
+
+  it("StreamingJsonParser pointers do not resolve inherited members", async () => {
+    const reader = createJSONReadableStreamDefaultReader('{"a": {}}', 3);
+    const parser = new StreamingJsonParser<any>(reader);
+
+    const [constructors, toStrings] = await Promise.all([
+      collect(parser.watch("/a/constructor")),
+      collect(parser.watchComplete("/a/toString")),
+    ]);
+
+    expect(constructors).toEqual([]);
+    expect(toStrings).toEqual([]);
+    const node = await parser.querySelector("/a");
+    expect(node).not.toBeNull();
+    expect(await collect(node!.select("/constructor"))).toEqual([]);
+    expect(new JSONPointerParser("/constructor").extractValues({})).toEqual([]);
+  });
+
+  it("StreamingJsonParser nodes navigate __proto__ members as data", async () => {
+    const reader = createJSONReadableStreamDefaultReader(attack, 9);
+    const parser = new StreamingJsonParser<any>(reader);
+
+    const node = await parser.querySelector("/items/0/__proto__");
+    expect(node).not.toBeNull();
+    expect(await node!.getValue()).toEqual({ admin: true });
+    expect(node!.getCurrentValue()).toEqual({ admin: true });
+  });
+
+  it("createObjectStreamingParser is safe", async () => {
+    const chunks = attack.match(/.{1,6}/g)!;
+    const stream = {
+      async *[Symbol.asyncIterator]() {
+        for (const content of chunks) {
+          yield { choices: [{ delta: { content } }] };
+        }
+      },
+    };
+    const parser = createObjectStreamingParser(stream, ObjectStreamExtractors.openAIChatCompletions);
+    expectSafe(await parser.getFullResponse());
+  });
+
+  it("createSSEJsonStreamingParser is safe", async () => {
+    const sse = attack
+      .match(/.{1,6}/g)!
+      .map((content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`)
+      .join("");
+    const encoder = new TextEncoder();
+    const sseStream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(sse));
+        controller.close();
+      },
+    });
+    const parser = createSSEJsonStreamingParser(sseStream, SSEJsonExtractors.openAIChatCompletions);
+    expectSafe(await parser.getFullResponse());
+  });
+
+  it("null-prototype objects work with every watcher", async () => {
+    const reader = createJSONReadableStreamDefaultReader(attack, 4);
+    const parser = new StreamingJsonParser<any>(reader, { nullPrototype: true });
+
+    const [watched, complete, full] = await Promise.all([
+      collect(parser.watch("/items/*", { waitForStructuralCompletion: true })),
+      collect(parser.watchComplete("/items/*/name")),
+      parser.getFullResponse(),
+    ]);
+
+    expect(Object.getPrototypeOf(full)).toBeNull();
+    expect(Object.getPrototypeOf(full.items[0])).toBeNull();
+    expect(watched).toHaveLength(1);
+    expect(watched[0].name).toBe("a");
+    expect(complete).toEqual(["a"]);
+    expect(await collect(parser.watchComplete("/constructor/prototype"))).toEqual([{ polluted: "yes" }]);
+  });
+});
+
+describe("duplicate keys", () => {
+  const json = '{"role": "user", "items": [{"id": 1}], "role": "admin", "items": [{"id": 2}]}';
+
+  it("first-wins applies to watchers and the full response", async () => {
+    const reader = createJSONReadableStreamDefaultReader(json, 6);
+    const parser = new StreamingJsonParser<any>(reader, { duplicateKeys: "first-wins" });
+
+    const [roles, items, full] = await Promise.all([
+      collect(parser.watchComplete("/role")),
+      collect(parser.watch("/items/*/id")),
+      parser.getFullResponse(),
+    ]);
+
+    expect(roles).toEqual(["user"]);
+    expect(items).toEqual([1]);
+    expect(full).toEqual({ role: "user", items: [{ id: 1 }] });
+  });
+
+  it("error rejects the stream through the adapters", async () => {
+    const stream = {
+      async *[Symbol.asyncIterator]() {
+        yield { choices: [{ delta: { content: json } }] };
+      },
+    };
+    const parser = createObjectStreamingParser(stream, {
+      ...ObjectStreamExtractors.openAIChatCompletions,
+      duplicateKeys: "error",
+    });
+    await expect(parser.getFullResponse()).rejects.toThrow(JsonStreamParseError);
+    await expect(parser.getFullResponse()).rejects.toMatchObject({ code: "DUPLICATE_KEY" });
+  });
+});
+
+describe("limits", () => {
+  it("reject every consumer of a StreamingJsonParser", async () => {
+    const reader = createJSONReadableStreamDefaultReader('{"items": [' + "[".repeat(50), 4);
+    const parser = new StreamingJsonParser<any>(reader, { limits: { maxDepth: 8 } });
+
+    const watched = collect(parser.watch("/items/*"));
+    await expect(parser.getFullResponse()).rejects.toBeInstanceOf(JsonStreamLimitError);
+    await expect(watched).rejects.toMatchObject({ limit: "maxDepth", max: 8, pointer: "/items/0/0/0/0/0/0" });
+  });
+
+  it("bound SSE lines through createSSEJsonStreamingParser", async () => {
+    const line = `data: ${JSON.stringify({ choices: [{ delta: { content: "x".repeat(1000) } }] })}\n\n`;
+    const encoder = new TextEncoder();
+    const sseStream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(line));
+        controller.close();
+      },
+    });
+    const parser = createSSEJsonStreamingParser(sseStream, {
+      ...SSEJsonExtractors.openAIChatCompletions,
+      limits: { maxSSEMessageBytes: 512 },
+    });
+    await expect(parser.getFullResponse()).rejects.toMatchObject({ limit: "maxSSEMessageBytes" });
+  });
+});
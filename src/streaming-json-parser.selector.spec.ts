@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from "vitest";
 import { StreamingJsonParser } from "./streaming-json-parser";
 import { createJSONReadableStreamDefaultReader } from "./utils/test-helpers/create-json-readable-stream-default-reader";
+import { createControlledReader } from "./utils/test-helpers/create-controlled-reader";
 
 describe("StreamingJsonParser selector API", () => {
   describe("select() method", () => {
@@ -320,4 +321,164 @@ describe("StreamingJsonParser selector API", () => {
       }).rejects.toThrow();
     });
   });
-});
\ No newline at end of file
+});
+describe("StreamingJsonParser live selector API", () => {
+  it("should yield nodes as soon as their path appears", async () => {
+    const { controller, reader } = createControlledReader();
+    const parser = new StreamingJsonParser(reader);
+    const nodes = parser.select('/items/*');
+
+    controller.enqueue('{"items": [{"id": 1');
+    const first = await nodes.next();
+    expect(first.value?.path).toBe('/items/0');
+    expect(first.value?.type).toBe('object');
+
+    controller.enqueue('}, "tail"');
+    const second = await nodes.next();
+    expect(second.value?.path).toBe('/items/1');
+    expect(second.value?.type).toBe('primitive');
+
+    controller.enqueue(']}');
+    controller.close();
+    expect((await nodes.next()).done).toBe(true);
+  });
+
+  it("should iterate partial values until the node closes", async () => {
+    const { controller, reader } = createControlledReader();
+    const parser = new StreamingJsonParser(reader);
+
+    controller.enqueue('{"user": {"name": "Alice", ');
+    const node = await parser.querySelector('/user');
+    const iterator = node![Symbol.asyncIterator]();
+
+    expect(await iterator.next()).toEqual({ value: { value: { name: "Alice" }, done: false }, done: false });
+
+    controller.enqueue('"city": "Paris"');
+    expect(await iterator.next()).toEqual({ value: { value: { name: "Alice", city: "Paris" }, done: false }, done: false });
+
+    controller.enqueue('}');
+    expect(await iterator.next()).toEqual({ value: { value: { name: "Alice", city: "Paris" }, done: true }, done: false });
+    expect((await iterator.next()).done).toBe(true);
+
+    controller.enqueue(', "more": true}');
+    controller.close();
+  });
+
+  it("should resolve getValue() when the node closes, before the stream ends", async () => {
+    const { controller, reader } = createControlledReader();
+    const parser = new StreamingJsonParser(reader);
+
+    controller.enqueue('{"first": [1, 2');
+    const node = await parser.querySelector('/first');
+    const value = node!.getValue();
+
+    controller.enqueue('], "second": ');
+    expect(await value).toEqual([1, 2]);
+
+    controller.enqueue('null}');
+    controller.close();
+    expect(await parser.getFullResponse()).toEqual({ first: [1, 2], second: null });
+  });
+
+  it("should navigate to parents", async () => {
+    const json = '{"users": [{"profile": {"name": "Alice"}}]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 5);
+    const parser = new StreamingJsonParser(reader);
+
+    const name = await parser.querySelector('/users/0/profile/name');
+    const profile = name!.parent()!;
+    const user = profile.parent()!;
+    const users = user.parent()!;
+    const root = users.parent()!;
+
+    expect([profile.path, profile.type]).toEqual(['/users/0/profile', 'object']);
+    expect([user.path, user.type]).toEqual(['/users/0', 'object']);
+    expect([users.path, users.type]).toEqual(['/users', 'array']);
+    expect([root.path, root.type]).toEqual(['', 'object']);
+    expect(root.parent()).toBeNull();
+    expect(await profile.getValue()).toEqual({ name: "Alice" });
+  });
+
+  it("should list children and keys", async () => {
+    const json = '{"obj": {"a": 1, "b/c": [true], "d": {}}, "arr": ["x", "y"]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 4);
+    const parser = new StreamingJsonParser(reader);
+
+    const obj = await parser.querySelector('/obj');
+    const children: any[] = [];
+    for await (const child of obj!.children()) {
+      children.push([child.path, child.type]);
+    }
+    expect(children).toEqual([
+      ['/obj/a', 'primitive'],
+      ['/obj/b~1c', 'array'],
+      ['/obj/d', 'object'],
+    ]);
+
+    const keys: string[] = [];
+    for await (const key of obj!.keys()) {
+      keys.push(key);
+    }
+    expect(keys).toEqual(['a', 'b/c', 'd']);
+
+    const arr = await parser.querySelector('/arr');
+    const indices: string[] = [];
+    for await (const key of arr!.keys()) {
+      indices.push(key);
+    }
+    expect(indices).toEqual(['0', '1']);
+  });
+
+  it("should report the length parsed so far", async () => {
+    const { controller, reader } = createControlledReader();
+    const parser = new StreamingJsonParser(reader);
+
+    controller.enqueue('{"list": [1, 2, ');
+    const list = await parser.querySelector('/list');
+    expect(list!.length).toBe(2);
+
+    controller.enqueue('3]}');
+    controller.close();
+    await parser.getFullResponse();
+    expect(list!.length).toBe(3);
+
+    const first = await parser.querySelector('/list/0');
+    expect(first!.length).toBeUndefined();
+  });
+
+  it("should support relative selection", async () => {
+    const json = '{"posts": [{"title": "A", "meta": {"views": 1}}, {"title": "B", "meta": {"views": 2}}]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 7);
+    const parser = new StreamingJsonParser(reader);
+
+    const results: any[] = [];
+    for await (const meta of parser.select('/posts/*/meta')) {
+      for await (const title of meta.select('1/title')) {
+        results.push([title.path, await title.getValue()]);
+      }
+      for await (const self of meta.select('0')) {
+        results.push([self.path, await self.getValue()]);
+      }
+    }
+
+    expect(results).toEqual([
+      ['/posts/0/title', 'A'],
+      ['/posts/0/meta', { views: 1 }],
+      ['/posts/1/title', 'B'],
+      ['/posts/1/meta', { views: 2 }],
+    ]);
+  });
+
+  it("should reject relative pointers that go above the root", async () => {
+    const json = '{"a": 1}';
+    const reader = createJSONReadableStreamDefaultReader(json, 3);
+    const parser = new StreamingJsonParser(reader);
+
+    const node = await parser.querySelector('/a');
+    await expect(async () => {
+      for await (const _ of node!.select('2/a')) {
+        // Should throw before yielding anything
+      }
+    }).rejects.toThrow('Relative pointer goes above the root');
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from "vitest";
 import { incrementalJsonParser } from "./incremental-json-parser";
+import { StreamingJsonParser } from "./streaming-json-parser";
 import { createJSONReadableStreamDefaultReader } from "./utils/test-helpers/create-json-readable-stream-default-reader";
+import { collect } from "./utils/test-helpers/collect";
 
 describe("streaming json parser", () => {
   it("should handle streaming JSON data", async () => {
@@ -32,6 +34,21 @@ describe("streaming json parser", () => {
     expect(results[results.length - 1].items).toHaveLength(1000);
   });
 
+  it("should find every item of a wide array fed in small chunks", async () => {
+    const items = Array.from({ length: 5000 }, (_, id) => ({ id, value: `item-${id}` }));
+    const json = JSON.stringify({ items });
+    const parser = new StreamingJsonParser(createJSONReadableStreamDefaultReader(json, 50));
+
+    // Snapshots of the array are deferred once it is large, and may hold an open string
+    const [values, complete] = await Promise.all([
+      collect(parser.watch("/items/*", { waitForStructuralCompletion: true })),
+      collect(parser.watchComplete("/items/*")),
+    ]);
+
+    expect(values).toEqual(items);
+    expect(complete).toEqual(items);
+  });
+
   it("should handle streaming with partial tokens", async () => {
     const json = '{"message": "これは日本語のテストです", "numbers": [100, 200, 300]}';
     const reader = createJSONReadableStreamDefaultReader(json, 7);
@@ -44,4 +61,226 @@ describe("streaming json parser", () => {
     expect(snapshots.length > 1).toBe(true);
     expect(snapshots[snapshots.length - 1]).toEqual(JSON.parse(json));
   });
-});
\ No newline at end of file
+});
+describe("StreamingJsonParser readPartial", () => {
+  it("should include partial strings when partialStrings is enabled", async () => {
+    const json = '{"story": "Once upon a time"}';
+    const reader = createJSONReadableStreamDefaultReader(json, 8);
+    const parser = new StreamingJsonParser(reader, { partialStrings: true });
+
+    const stories: any[] = [];
+    for await (const partial of parser.readPartial()) {
+      stories.push(partial.story);
+    }
+
+    expect(stories).toEqual([undefined, "Once ", "Once upon a t", "Once upon a time"]);
+  });
+});
+
+describe("StreamingJsonParser syntax", () => {
+  it("should stream JSON5 input and match pointers", async () => {
+    const json = "// model output\n{items: [{id: 1, name: 'a'}, {id: 0x2, name: 'b',},],}";
+    const reader = createJSONReadableStreamDefaultReader(json, 5);
+    const parser = new StreamingJsonParser(reader, { syntax: "json5" });
+
+    const [items, partials] = await Promise.all([
+      (async () => {
+        const result: any[] = [];
+        for await (const item of parser.watchComplete("/items/*")) {
+          result.push(item);
+        }
+        return result;
+      })(),
+      (async () => {
+        let count = 0;
+        for await (const _ of parser.readPartial()) {
+          count++;
+        }
+        return count;
+      })(),
+    ]);
+
+    expect(items).toEqual([{ id: 1, name: "a" }, { id: 2, name: "b" }]);
+    expect(partials).toBeGreaterThan(1);
+  });
+});
+
+describe("StreamingJsonParser repair", () => {
+  it("should return usable data for near-JSON and report the repairs", async () => {
+    const json = '{"items": [{"ok": True} {"text": "multi\nline"}], "summary": "cut of';
+    const reader = createJSONReadableStreamDefaultReader(json, 7);
+    const reported: string[] = [];
+    const parser = new StreamingJsonParser(reader, {
+      repair: true,
+      onRepair: (repair) => reported.push(repair.kind),
+    });
+
+    const items: any[] = [];
+    for await (const item of parser.watchComplete("/items/*")) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([{ ok: true }, { text: "multi\nline" }]);
+    expect(await parser.getFullResponse()).toEqual({
+      items: [{ ok: true }, { text: "multi\nline" }],
+      summary: "cut of",
+    });
+    expect(parser.getRepairs().map((r) => [r.kind, r.pointer])).toEqual([
+      ["pythonLiteral", "/items/0/ok"],
+      ["insertComma", "/items"],
+      ["escapeControlCharacter", "/items/1/text"],
+      ["closeString", "/summary"],
+      ["closeStructure", ""],
+    ]);
+    expect(reported).toEqual(parser.getRepairs().map((r) => r.kind));
+  });
+});
+
+describe("StreamingJsonParser multiDocument", () => {
+  const ndjson = '{"id":1,"tags":["a"]}\n{"id":2,"tags":["b","c"]}\n{"id":2,"tags":["b","c"]}\n';
+
+  it("should apply pointers per document and tag the results", async () => {
+    const reader = createJSONReadableStreamDefaultReader(ndjson, 6);
+    const parser = new StreamingJsonParser(reader, { multiDocument: true });
+
+    const [complete, ids, full] = await Promise.all([
+      collect(parser.watchComplete("/tags/*")),
+      collect(parser.watch("/id")),
+      parser.getFullResponse(),
+    ]);
+
+    expect(complete).toEqual([
+      { document: 0, value: "a" },
+      { document: 1, value: "b" },
+      { document: 1, value: "c" },
+      { document: 2, value: "b" },
+      { document: 2, value: "c" },
+    ]);
+    expect(ids).toEqual([
+      { document: 0, value: 1 },
+      { document: 1, value: 2 },
+      { document: 2, value: 2 },
+    ]);
+    expect(full).toEqual([
+      { id: 1, tags: ["a"] },
+      { id: 2, tags: ["b", "c"] },
+      { id: 2, tags: ["b", "c"] },
+    ]);
+  });
+
+  it("should match scalar documents with the root pointer", async () => {
+    const reader = createJSONReadableStreamDefaultReader('{"a":1}\n{"a":2}\n3\n"x"\n', 3);
+    const parser = new StreamingJsonParser(reader, { multiDocument: true });
+
+    const [values, complete, partials] = await Promise.all([
+      collect(parser.watch("", { waitForStructuralCompletion: true })),
+      collect(parser.watchComplete("")),
+      collect(parser.watchPartial("")),
+    ]);
+
+    const documents = [
+      { document: 0, value: { a: 1 } },
+      { document: 1, value: { a: 2 } },
+      { document: 2, value: 3 },
+      { document: 3, value: "x" },
+    ];
+    expect(values).toEqual(documents);
+    expect(complete).toEqual(documents);
+    expect(partials.filter((p) => p.done).map(({ document, value }) => ({ document, value }))).toEqual(documents);
+  });
+
+  it("should restart text and partial tracking for every document", async () => {
+    const text = '\u001e{"msg":"hello"}\n\u001e{"msg":"hi"}\n';
+    const reader = createJSONReadableStreamDefaultReader(text, 4);
+    const parser = new StreamingJsonParser(reader, { multiDocument: true });
+
+    const [deltas, partials] = await Promise.all([
+      collect(parser.watchText("/msg")),
+      collect(parser.watchPartial("")),
+    ]);
+
+    const messages = ["", ""];
+    for (const { document, delta } of deltas) {
+      messages[document!] += delta;
+    }
+    expect(messages).toEqual(["hello", "hi"]);
+    expect(deltas.filter((d) => d.done).map((d) => d.document)).toEqual([0, 1]);
+    expect(partials.filter((p) => p.done)).toEqual([
+      { path: "", index: 0, value: { msg: "hello" }, done: true, document: 0 },
+      { path: "", index: 0, value: { msg: "hi" }, done: true, document: 1 },
+    ]);
+  });
+
+  it("should replay earlier documents to late watchers", async () => {
+    const reader = createJSONReadableStreamDefaultReader(ndjson, 1000);
+    const parser = new StreamingJsonParser(reader, { multiDocument: true });
+    await parser.getFullResponse();
+
+    expect(await collect(parser.watchComplete("/id"))).toEqual([
+      { document: 0, value: 1 },
+      { document: 1, value: 2 },
+      { document: 2, value: 2 },
+    ]);
+    expect(await collect(parser.watch("/tags"))).toEqual([
+      { document: 0, value: ["a"] },
+      { document: 1, value: ["b", "c"] },
+      { document: 2, value: ["b", "c"] },
+    ]);
+  });
+
+  it("should only keep the current document with keepDocuments: false", async () => {
+    const reader = createJSONReadableStreamDefaultReader(ndjson, 6);
+    const parser = new StreamingJsonParser(reader, { multiDocument: true, keepDocuments: false });
+
+    const [ids, full] = await Promise.all([collect(parser.watch("/id")), parser.getFullResponse()]);
+
+    expect(ids.map(({ document }) => document)).toEqual([0, 1, 2]);
+    expect(full).toEqual([]);
+    expect(await collect(parser.watchComplete("/id"))).toEqual([{ document: 2, value: 2 }]);
+  });
+});
+
+describe("StreamingJsonParser numbers", () => {
+  it("should watch BigInt values without losing precision", async () => {
+    const json = '{"items": [{"id": 12345678901234567890}, {"id": 12345678901234567891}]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 9);
+    const parser = new StreamingJsonParser(reader, { numbers: "bigint" });
+
+    const ids: any[] = [];
+    for await (const id of parser.watch("/items/*/id")) {
+      ids.push(id);
+    }
+
+    expect(ids).toEqual([BigInt("12345678901234567890"), BigInt("12345678901234567891")]);
+  });
+});
+
+describe("StreamingJsonParser revivers", () => {
+  it("should deliver revived values to watchers, including late ones", async () => {
+    const json = '{"items": [{"id": 1, "due": "2024-05-01"}, {"id": 2, "due": "2024-06-01"}]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 8);
+    const parser = new StreamingJsonParser(reader, {
+      dates: ["/items/*/due"],
+      reviver: (key, value) => (key === "id" ? `item-${value}` : value),
+    });
+
+    const items: any[] = [];
+    for await (const item of parser.watchComplete("/items/*")) {
+      items.push(item);
+    }
+    const expected = [
+      { id: "item-1", due: new Date("2024-05-01") },
+      { id: "item-2", due: new Date("2024-06-01") },
+    ];
+    expect(items).toEqual(expected);
+
+    const dues: any[] = [];
+    for await (const { value, done } of parser.watchPartial("/items/*/due")) {
+      if (done) {
+        dues.push(value);
+      }
+    }
+    expect(dues).toEqual(expected.map((item) => item.due));
+    expect(await parser.getFullResponse()).toEqual({ items: expected });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { StreamingJsonParser } from "./streaming-json-parser";
+import { createStallingSource } from "./utils/test-helpers/create-stalling-source";
+import { collect } from "./utils/test-helpers/collect";
+
+const chunks = [
+  '{"metadata": {"model": "m", ',
+  '"total": 3}, "items": [{"id": 1}, ',
+  '{"id": 2}, {"id": 3}',
+  "]}",
+];
+
+describe("StreamingJsonParser early termination", () => {
+  describe("first()", () => {
+    it("resolves as soon as the value is complete", async () => {
+      const { stream } = createStallingSource(chunks.slice(0, 2));
+      const parser = new StreamingJsonParser(stream.getReader());
+      expect(await parser.first("/metadata")).toEqual({ model: "m", total: 3 });
+    });
+
+    it("cancels the source once resolved with cancelSource: true", async () => {
+      const { stream, source } = createStallingSource(chunks);
+      const parser = new StreamingJsonParser(stream.getReader());
+      expect(await parser.first("/metadata", { cancelSource: true })).toEqual({ model: "m", total: 3 });
+      expect(source.cancelled).toBe(true);
+      expect(source.reads).toBeLessThan(chunks.length);
+    });
+
+    it("leaves the stream to consumers created afterwards by default", async () => {
+      const { stream, source } = createStallingSource(chunks, false);
+      const parser = new StreamingJsonParser<any>(stream.getReader());
+      expect(await parser.first("/items/*")).toEqual({ id: 1 });
+      expect(source.reads).toBeLessThan(chunks.length);
+      const [items, full] = await Promise.all([collect(parser.watch("/items/*")), parser.getFullResponse()]);
+      expect(items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(full.items).toHaveLength(3);
+      expect(source.cancelled).toBe(false);
+    });
+
+    it("resolves undefined without a match", async () => {
+      const { stream } = createStallingSource(chunks, false);
+      const parser = new StreamingJsonParser(stream.getReader());
+      expect(await parser.first("/missing")).toBeUndefined();
+    });
+
+    it("tags the document in multi-document mode", async () => {
+      const { stream } = createStallingSource(['{"n": 1}\n{"n"', ": 2}\n"]);
+      const parser = new StreamingJsonParser(stream.getReader(), { multiDocument: true });
+      expect(await parser.first("/n")).toEqual({ document: 0, value: 1 });
+    });
+
+    it("rejects when aborted", async () => {
+      const { stream } = createStallingSource(chunks.slice(0, 1));
+      const parser = new StreamingJsonParser(stream.getReader());
+      const controller = new AbortController();
+      const first = parser.first("/items/0", { signal: controller.signal });
+      controller.abort();
+      await expect(first).rejects.toMatchObject({ name: "AbortError" });
+    });
+  });
+
+  describe("take()", () => {
+    it("resolves with the first values", async () => {
+      const { stream, source } = createStallingSource(chunks);
+      const parser = new StreamingJsonParser(stream.getReader());
+      expect(await parser.take("/items/*", 2, { cancelSource: true })).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(source.cancelled).toBe(true);
+      await expect(parser.getFullResponse()).rejects.toMatchObject({ name: "AbortError" });
+    });
+
+    it("resolves with fewer values when the stream ends first", async () => {
+      const { stream, source } = createStallingSource(chunks, false);
+      const parser = new StreamingJsonParser(stream.getReader());
+      expect(await parser.take("/items/*", 5, { cancelSource: true })).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(source.cancelled).toBe(false);
+    });
+
+    it("resolves with nothing for a count of zero", async () => {
+      const { stream, source } = createStallingSource(chunks);
+      const parser = new StreamingJsonParser(stream.getReader());
+      expect(await parser.take("/items/*", 0)).toEqual([]);
+      expect(source.reads).toBe(0);
+    });
+  });
+
+  describe("until()", () => {
+    it("resolves with the first snapshot satisfying the predicate", async () => {
+      const { stream, source } = createStallingSource(chunks);
+      const parser = new StreamingJsonParser<any>(stream.getReader());
+      const snapshot = await parser.until((data) => data.items?.[0]?.id !== undefined, { cancelSource: true });
+      expect(snapshot!.metadata).toEqual({ model: "m", total: 3 });
+      expect(snapshot!.items[0]).toEqual({ id: 1 });
+      expect(source.cancelled).toBe(true);
+    });
+
+    it("resolves undefined when the stream ends first", async () => {
+      const { stream } = createStallingSource(chunks, false);
+      const parser = new StreamingJsonParser<any>(stream.getReader());
+      expect(await parser.until((data) => data.done === true)).toBeUndefined();
+    });
+  });
+});
@@ -1,87 +1,316 @@
-import { IncrementalParser, incrementalJsonParser } from './incremental-json-parser';
-import type { DeepPartial } from './types';
+import { getOpenStringPointer } from './incremental-json-parser';
+import type { ContextType, DeepPartial, JsonParserCheckpoint, JsonRepair } from './types';
 import { JSONPointerParser, type JSONPointerOptions } from './json-pointer-parser';
-import { decodeStreamChunk, createStreamDecoder } from './utils/text-decoder';
-import { normalizeError } from './utils/error-utils';
+import { parseJsonPointer } from './utils/json-pointer';
+import { createJsonPointerError } from './utils/error-utils';
+import { createJsonStreamReader, type JsonStreamSource } from './utils/stream-source';
+import type { AbortOptions, CancelOptions } from './utils/abort';
+import { encodeCheckpointValue, decodeCheckpointValue } from './utils/checkpoint-values';
+import {
+  SharedParseStream,
+  isPartialUpdate,
+  type ParseBatch,
+  type SharedParseStreamOptions,
+  type SubscribeOptions,
+} from './shared-parse-stream';
 
 /**
- * Represents a JSON node in the streaming parser with navigation capabilities
+ * Kind of value a StreamingJsonNode points at
+ */
+export type StreamingJsonNodeType = 'object' | 'array' | 'primitive' | 'unknown';
+
+/**
+ * Represents a JSON node in the streaming parser with navigation capabilities.
+ * Nodes are created as soon as their path appears in the stream, so their value
+ * may still be growing while they are being navigated.
  */
 export class StreamingJsonNode<T = any> {
   public readonly path: string;
-  public readonly type: 'object' | 'array' | 'primitive' | 'unknown';
+  public readonly type: StreamingJsonNodeType;
   
   private parser: StreamingJsonParser<T>;
-  private valuePath: string;
+  private ancestors: ContextType[];
   
-  constructor(parser: StreamingJsonParser<T>, path: string, type: 'object' | 'array' | 'primitive' | 'unknown' = 'unknown') {
+  /**
+   * @param parser - Parser the node belongs to
+   * @param path - Concrete JSON Pointer of the node
+   * @param type - Kind of value at the path
+   * @param ancestors - Types of the enclosing containers, from the root down
+   */
+  constructor(
+    parser: StreamingJsonParser<T>,
+    path: string,
+    type: StreamingJsonNodeType = 'unknown',
+    ancestors: ContextType[] = []
+  ) {
     this.parser = parser;
     this.path = path;
     this.type = type;
-    this.valuePath = path;
+    this.ancestors = ancestors;
   }
   
   /**
-   * AsyncIterator implementation - yields values as they stream
+   * AsyncIterator implementation - yields the node's partial value every time it
+   * changes, then the final value with done=true once the node closes
    */
   async *[Symbol.asyncIterator](): AsyncIterator<{value: any, done: boolean}> {
-    // For primitive values, yield once with done=true
+    for await (const { value, done } of this.parser.watchPartial(this.path, { cancelSource: false })) {
+      yield { value, done };
+      if (done) {
+        return;
+      }
+    }
+  }
+  
+  /**
+   * Number of entries parsed so far for objects and arrays, undefined for primitives
+   */
+  get length(): number | undefined {
     if (this.type === 'primitive') {
-      const value = await this.getValue();
-      yield { value, done: true };
-      return;
+      return undefined;
     }
-    
-    // For objects/arrays, watch for completion
-    const fullValue = await this.getValue();
-    yield { value: fullValue, done: true };
+    const value = this.getCurrentValue();
+    if (Array.isArray(value)) {
+      return value.length;
+    }
+    return value !== null && typeof value === 'object' ? Object.keys(value).length : 0;
   }
   
   /**
-   * Select child nodes matching the pointer
+   * Returns the value parsed so far at this node, or undefined if it has not appeared yet
    */
-  async *select(pointer: string): AsyncGenerator<StreamingJsonNode<T>> {
-    // Combine current path with the new pointer
-    const combinedPath = this.path + pointer;
-    
-    for await (const node of this.parser.select(combinedPath)) {
-      yield node;
+  getCurrentValue(): any {
+    let current: any = this.parser.getCurrentSnapshot();
+    if (current === null) {
+      return undefined;
+    }
+    for (const segment of parseJsonPointer(this.path)) {
+      if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, segment)) {
+        return undefined;
+      }
+      current = current[segment];
     }
+    return current;
   }
   
   /**
-   * Get the complete value at this node
+   * Returns the node of the enclosing object or array, or null for the root
    */
-  async getValue(): Promise<any> {
-    const fullResponse = await this.parser.getFullResponse();
-    
+  parent(): StreamingJsonNode<T> | null {
     if (this.path === '') {
-      return fullResponse;
+      return null;
+    }
+    const parentPath = this.path.slice(0, this.path.lastIndexOf('/'));
+    const depth = parseJsonPointer(parentPath).length;
+    const type = depth < this.ancestors.length ? this.ancestors[depth] : 'unknown';
+    return new StreamingJsonNode<T>(this.parser, parentPath, type, this.ancestors.slice(0, depth));
+  }
+  
+  /**
+   * Yields the direct children of this node as they appear in the stream
+   */
+  async *children(options?: AbortOptions): AsyncGenerator<StreamingJsonNode<T>> {
+    if (this.type === 'primitive') {
+      return;
+    }
+    const depth = parseJsonPointer(this.path).length + 1;
+    const prefix = this.path + '/';
+    yield* this.parser.selectWhere(
+      (path) => path.startsWith(prefix) && parseJsonPointer(path).length === depth,
+      this.path,
+      options
+    );
+  }
+  
+  /**
+   * Yields the keys of this node (array indices as strings) as they appear in the stream
+   */
+  async *keys(options?: AbortOptions): AsyncGenerator<string> {
+    for await (const child of this.children(options)) {
+      const segments = parseJsonPointer(child.path);
+      yield segments[segments.length - 1];
+    }
+  }
+  
+  /**
+   * Select nodes relative to this one.
+   * 
+   * A pointer starting with "/" (or empty) selects descendants of this node.
+   * A Relative JSON Pointer starting with a number first moves up that many
+   * levels (e.g., "0/name" is this node's name, "1/title" a sibling).
+   */
+  async *select(pointer: string, options?: AbortOptions): AsyncGenerator<StreamingJsonNode<T>> {
+    const relative = /^(\d+)(.*)$/.exec(pointer);
+    if (!relative) {
+      yield* this.parser.selectWhere(this.createMatcher(this.path + pointer), this.path, options);
+      return;
     }
     
-    // Extract value at the path
-    const pointerParser = new JSONPointerParser<T>(this.path);
-    const values = pointerParser.extractValues(fullResponse as DeepPartial<T>);
-    
-    return values.length > 0 ? values[0] : undefined;
+    let base: StreamingJsonNode<T> = this;
+    for (let up = Number(relative[1]); up > 0; up--) {
+      const parent = base.parent();
+      if (!parent) {
+        throw createJsonPointerError(pointer, 'Relative pointer goes above the root');
+      }
+      base = parent;
+    }
+    yield* base.select(relative[2], options);
   }
+  
+  /**
+   * Get the complete value at this node, waiting until it is closed
+   */
+  async getValue(options?: AbortOptions): Promise<any> {
+    for await (const { value, done } of this.parser.watchPartial(this.path, { signal: options?.signal, cancelSource: false })) {
+      if (done) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+  
+  private createMatcher(pointer: string): (path: string) => boolean {
+    const pointerParser = new JSONPointerParser<T>(pointer);
+    return (path) => pointerParser.matchesPath(path, () => true);
+  }
+}
+
+/**
+ * Options for controlling StreamingJsonParser behavior
+ */
+export interface StreamingJsonParserOptions extends SharedParseStreamOptions {}
+
+/**
+ * Options for cancelling watchers and resuming them on a parser restored from a checkpoint
+ */
+export interface WatchOptions extends CancelOptions {
+  /**
+   * Whether the matches already present in the checkpoint the parser was restored
+   * from count as yielded, so that a resumed job does not emit them again. The
+   * results the checkpoint saved as not yielded yet by this watcher come first.
+   * Has no effect without the `checkpoint` option.
+   * @default false
+   */
+  resume?: boolean;
+}
+
+/**
+ * Options for `toReadableStream()`
+ */
+export interface ToReadableStreamOptions extends JSONPointerOptions, WatchOptions {
+  /**
+   * Number of values read ahead of the consumer
+   * @default 1
+   */
+  highWaterMark?: number;
+}
+
+/**
+ * Newly streamed characters of a string value watched with `watchText()`
+ */
+export interface TextDelta {
+  /** Concrete JSON Pointer of the string */
+  path: string;
+  /** Characters appended since the previous delta for this path */
+  delta: string;
+  /** True once the closing quote of the string has been parsed */
+  done: boolean;
+  /** Index of the document the string belongs to (multi-document mode only) */
+  document?: number;
+}
+
+/**
+ * Progressive state of a value watched with `watchPartial()`
+ */
+export interface PartialMatch<V = any> {
+  /** Concrete JSON Pointer of the value */
+  path: string;
+  /** Order in which the path was first matched (the array index for "/items/*") */
+  index: number;
+  /** The value parsed so far */
+  value: V;
+  /** True once the value's closing delimiter has been parsed */
+  done: boolean;
+  /** Index of the document the value belongs to (multi-document mode only) */
+  document?: number;
+}
+
+/**
+ * A value yielded by `watch()` or `watchComplete()` in multi-document mode
+ */
+export interface DocumentMatch<V = any> {
+  /** Index of the document the value belongs to, counting from 0 */
+  document: number;
+  /** The matched value */
+  value: V;
+}
+
+/**
+ * A watcher running on a StreamingJsonParser, with the results it has not yielded yet
+ */
+interface ActiveWatcher {
+  /** Method, pointer and creation order, which identify the watcher in checkpoints */
+  key: string;
+  results: any[];
+  /** Index of the next result to yield */
+  next: number;
+  /** Turns the batches received so far into results */
+  drain: () => void;
 }
 
 /**
  * A utility class for reading and parsing JSON streams with support for JSON Pointers.
  * Provides convenient methods for watching specific paths and getting full responses.
+ * 
+ * The stream is read by a single internal loop whose results are shared, so any number
+ * of watchers, `readPartial()` and `getFullResponse()` can run concurrently and each
+ * sees the complete stream. Watchers created after parsing has started first receive
+ * every match that is already available (unless the `replay` option is disabled).
+ *
+ * With the `multiDocument` option, pointers are applied to each top-level value
+ * of the stream separately and watchers tag their results with the document index.
+ *
+ * The `signal` option stops the whole parser and cancels the source; the `signal`
+ * of a single consumer only rejects that consumer. The source is cancelled once the
+ * last consumer stops early, or any consumer with `cancelSource: true`; consumers
+ * that leave the stream to consumers created later pass `cancelSource: false`, which
+ * is the default of `first()`, `take()` and `until()`.
+ * Selected nodes keep reading the stream, so selectors never cancel it.
  */
 export class StreamingJsonParser<T = any> {
-  private reader: ReadableStreamDefaultReader<Uint8Array | string>;
-  private fullResponse: T | null = null;
-  private currentSnapshot: DeepPartial<T> | null = null;
-  private completed: boolean = false;
-  private error: Error | null = null;
-  private consumePromise: Promise<void> | null = null;
-  private activeWatch: boolean = false;
+  private stream: SharedParseStream;
+  private options: StreamingJsonParserOptions;
+  private watchers = new Set<ActiveWatcher>();
+  /** Number of watchers created so far by method and pointer */
+  private watcherCounts = new Map<string, number>();
+
+  constructor(
+    reader: ReadableStreamDefaultReader<Uint8Array | string>,
+    options: StreamingJsonParserOptions = {}
+  ) {
+    this.stream = new SharedParseStream(reader, options);
+    this.options = options;
+  }
 
-  constructor(reader: ReadableStreamDefaultReader<Uint8Array | string>) {
-    this.reader = reader;
+  /**
+   * Creates a parser from any source of JSON text: a ReadableStream or its reader,
+   * an async or sync iterable of chunks (async generators, Node streams such as
+   * `fs.createReadStream()`), a fetch Response, a Blob, a string or bytes
+   * (`Uint8Array`, `Buffer`, `ArrayBuffer`).
+   * The source is read on demand, locks taken on streams are released when reading
+   * ends, and the source is cancelled (iterators are returned) when parsing fails.
+   * 
+   * @param source - Where to read the JSON text from
+   * @param options - Options for the parser
+   * 
+   * @example
+   * ```typescript
+   * const parser = StreamingJsonParser.from(await fetch('/api/data'));
+   * const fileParser = StreamingJsonParser.from(fs.createReadStream('data.json'));
+   * ```
+   */
+  static from<T = any>(source: JsonStreamSource, options: StreamingJsonParserOptions = {}): StreamingJsonParser<T> {
+    return new StreamingJsonParser<T>(createJsonStreamReader(source), options);
   }
 
   /**
@@ -91,8 +320,8 @@ export class StreamingJsonParser<T = any> {
    * even if the parser hasn't encountered the closing delimiters (} or ]) yet.
    * 
    * @param pointer - JSON Pointer string (e.g., "/items/*" or "/data/0/name")
-   * @param options - Options for controlling completion behavior
-   * @yields Completed values at the specified path
+   * @param options - Options for controlling completion behavior, cancelling and resuming from a checkpoint
+   * @yields Completed values at the specified path, as `DocumentMatch` objects in multi-document mode
    * 
    * @example
    * ```typescript
@@ -102,123 +331,376 @@ export class StreamingJsonParser<T = any> {
    * }
    * ```
    */
-  async *watch(pointer: string, options?: JSONPointerOptions): AsyncGenerator<any, void, unknown> {
-    const pointerParser = new JSONPointerParser<T>(pointer, options);
-    
-    // Mark as active watch to prevent concurrent background consumption
-    this.activeWatch = true;
+  watch(pointer: string, options?: JSONPointerOptions & WatchOptions): AsyncGenerator<any, void, unknown> {
+    return this.watchValues(pointer, options, this.subscription(options));
+  }
+
+  /**
+   * Implements `watch()` with control over how the shared stream is subscribed to
+   */
+  private watchValues(
+    pointer: string,
+    options: JSONPointerOptions | undefined,
+    subscription: SubscribeOptions
+  ): AsyncGenerator<any, void, unknown> {
+    const multiDocument = this.options.multiDocument ?? false;
+    let pointerParser = new JSONPointerParser<T>(pointer, options);
+    let document = 0;
+    // Documents before the restored one were finished before the checkpoint
+    let firstDocument = 0;
     
-    try {
-      // Create a new parser for this watch operation
-      const parser = new IncrementalParser();
-      const decoder = createStreamDecoder();
+    return this.runWatcher('watch ' + pointer, subscription, (batch, results) => {
+      // Notify the pointer parser about closed structures
+      for (const closedStructure of batch.closedStructures) {
+        pointerParser.markStructureClosed(closedStructure);
+      }
       
-      while (true) {
-        const { done, value } = await this.reader.read();
+      for (let i = 0; i < batch.updates.length; i++) {
+        const update = batch.updates[i];
+        if (multiDocument && batch.documents[i] < firstDocument) {
+          continue;
+        }
+        if (multiDocument && batch.documents[i] !== document) {
+          // Values already returned belong to the previous document
+          document = batch.documents[i];
+          pointerParser = new JSONPointerParser<T>(pointer, options);
+          for (const closedStructure of batch.closedStructures) {
+            pointerParser.markStructureClosed(closedStructure);
+          }
+        }
+        // Strings that are still streaming are never complete values
+        if (isPartialUpdate(update)) {
+          continue;
+        }
+        const newValues = pointerParser.getNewCompletedValues(update);
+        if (batch.restored) {
+          continue;
+        }
+        for (const newValue of newValues) {
+          results.push(multiDocument ? { document, value: newValue } : newValue);
+        }
+      }
+      if (batch.restored) {
+        firstDocument = document;
+      }
+    });
+  }
+
+  /**
+   * Watches string values at a JSON Pointer path and yields only the newly appended
+   * characters as they arrive, followed by a `done` delta when the string closes.
+   * 
+   * @param pointer - JSON Pointer string (e.g., "/story"); wildcards are supported
+   * @param options - Options for cancelling and resuming from a checkpoint
+   * @yields Text deltas tagged with the concrete path of the string
+   * 
+   * @example
+   * ```typescript
+   * for await (const { path, delta, done } of streamReader.watchText('/story')) {
+   *   typewriter(path).append(delta);
+   *   if (done) typewriter(path).finish();
+   * }
+   * ```
+   */
+  watchText(pointer: string, options?: WatchOptions): AsyncGenerator<TextDelta, void, unknown> {
+    const multiDocument = this.options.multiDocument ?? false;
+    const pointerParser = new JSONPointerParser<T>(pointer);
+    const emittedLengths = new Map<string, number>();
+    const finished = new Set<string>();
+    let document = 0;
+    let firstDocument = 0;
+    
+    return this.runWatcher('watchText ' + pointer, this.subscription(options), (batch, results: TextDelta[]) => {
+      for (let i = 0; i < batch.updates.length; i++) {
+        const update = batch.updates[i];
+        if (multiDocument && batch.documents[i] < firstDocument) {
+          continue;
+        }
+        if (multiDocument && batch.documents[i] !== document) {
+          document = batch.documents[i];
+          emittedLengths.clear();
+          finished.clear();
+        }
+        const openPointer = getOpenStringPointer(update);
         
-        if (done) {
-          parser.end();
-          const updates = parser.collectUpdates();
-          if (updates.length > 0) {
-            this.currentSnapshot = updates[updates.length - 1];
+        for (const { path, value: text } of pointerParser.extractMatches(update)) {
+          if (typeof text !== 'string' || finished.has(path)) {
+            continue;
           }
-          // Set fullResponse to the current snapshot (should be complete now)
-          if (this.currentSnapshot !== null) {
-            this.fullResponse = this.currentSnapshot as T;
+          const emitted = emittedLengths.get(path) ?? 0;
+          const isDone = path !== openPointer;
+          if (text.length > emitted || isDone) {
+            emittedLengths.set(path, text.length);
+            if (isDone) {
+              finished.add(path);
+            }
+            if (batch.restored) {
+              continue;
+            }
+            const delta = { path, delta: text.slice(emitted), done: isDone };
+            results.push(multiDocument ? { ...delta, document } : delta);
           }
-          this.completed = true;
-          break;
         }
-        
-        const chunk = decodeStreamChunk(value, decoder);
-        parser.feed(chunk);
-        
-        const updates = parser.collectUpdates();
-        const closedStructures = parser.collectClosedStructures();
-        
-        // Notify the pointer parser about closed structures
-        for (const closedStructure of closedStructures) {
-          pointerParser.markStructureClosed(closedStructure);
+      }
+      if (batch.restored) {
+        firstDocument = document;
+      }
+    });
+  }
+
+  /**
+   * Watches a specific JSON Pointer path and yields the evolving partial value
+   * every time a matched value changes, until its closing `}` or `]` is parsed.
+   * 
+   * @param pointer - JSON Pointer string (e.g., "/items/*")
+   * @param options - Options for cancelling and resuming from a checkpoint
+   * @yields Partial matches; `done` flips to true with the final value
+   * 
+   * @example
+   * ```typescript
+   * for await (const { index, value, done } of streamReader.watchPartial('/items/*')) {
+   *   renderCard(index, value, { loading: !done });
+   * }
+   * ```
+   */
+  watchPartial(pointer: string, options?: WatchOptions): AsyncGenerator<PartialMatch, void, unknown> {
+    const multiDocument = this.options.multiDocument ?? false;
+    const pointerParser = new JSONPointerParser<T>(pointer);
+    const closedStructures = new WeakSet<object>();
+    const tracked = new Map<string, { index: number; value: any; done: boolean }>();
+    let document = 0;
+    let firstDocument = 0;
+    
+    return this.runWatcher('watchPartial ' + pointer, this.subscription(options), (batch, results: PartialMatch[]) => {
+      for (const closedStructure of batch.closedStructures) {
+        closedStructures.add(closedStructure);
+      }
+      
+      for (let i = 0; i < batch.updates.length; i++) {
+        const update = batch.updates[i];
+        if (multiDocument && batch.documents[i] < firstDocument) {
+          continue;
+        }
+        if (multiDocument && batch.documents[i] !== document) {
+          document = batch.documents[i];
+          tracked.clear();
         }
+        if (!this.options.partialStrings && isPartialUpdate(update)) {
+          continue;
+        }
+        const openPointer = getOpenStringPointer(update);
         
-        for (const update of updates) {
-          this.currentSnapshot = update;
-          const newValues = pointerParser.getNewCompletedValues(update);
-          for (const newValue of newValues) {
-            yield newValue;
+        for (const match of pointerParser.extractMatches(update)) {
+          const isDone = match.value !== null && typeof match.value === 'object'
+            ? closedStructures.has(match.value)
+            : match.path !== openPointer;
+          const previous = tracked.get(match.path);
+          if (previous && (previous.done || previous.value === match.value)) {
+            continue;
+          }
+          const index = previous ? previous.index : tracked.size;
+          tracked.set(match.path, { index, value: match.value, done: isDone });
+          if (batch.restored) {
+            continue;
           }
+          const partial = { path: match.path, index, value: match.value, done: isDone };
+          results.push(multiDocument ? { ...partial, document } : partial);
         }
       }
-    } catch (error) {
-      this.error = normalizeError(error);
-      throw this.error;
-    } finally {
-      this.activeWatch = false;
-    }
+      if (batch.restored) {
+        firstDocument = document;
+      }
+    });
   }
 
   /**
    * Watches a specific JSON Pointer path and yields values only when they are structurally complete.
    * 
-   * Uses "structural completion" - waits for the entire JSON stream to complete before yielding values.
+   * Uses "structural completion" - each matched value is yielded the moment the parser reaches
+   * its own closing delimiter (} or ]), while the rest of the stream keeps flowing.
    * This ensures objects/arrays are truly complete and won't receive additional properties.
    * 
    * @param pointer - JSON Pointer string (e.g., "/items/*" or "/data/0/name")
-   * @yields Structurally completed values at the specified path
+   * @param options - Options for cancelling and resuming from a checkpoint
+   * @yields Structurally completed values at the specified path, as `DocumentMatch` objects in multi-document mode
    * 
    * @example
    * ```typescript
-   * // Only yields complete objects after the entire JSON stream is parsed
+   * // Yields each item as soon as its closing brace is parsed
    * for await (const item of streamReader.watchComplete('/items/*')) {
    *   console.log('Complete item:', item);
    * }
    * ```
    */
-  async *watchComplete(pointer: string): AsyncGenerator<any, void, unknown> {
-    // For simplicity, wait for the entire JSON to complete and then extract values
-    const fullResponse = await this.getFullResponse();
-    
-    // Now extract all values using the pointer
+  watchComplete(pointer: string, options?: WatchOptions): AsyncGenerator<any, void, unknown> {
+    return this.watchCompleteValues(pointer, this.subscription(options));
+  }
+
+  /**
+   * Implements `watchComplete()` with control over how the shared stream is subscribed to
+   */
+  private watchCompleteValues(
+    pointer: string,
+    subscription: SubscribeOptions
+  ): AsyncGenerator<any, void, unknown> {
+    const multiDocument = this.options.multiDocument ?? false;
     const pointerParser = new JSONPointerParser<T>(pointer);
-    const values = pointerParser.extractValues(fullResponse as DeepPartial<T>);
+    // Types of the containers enclosing the current event, from the root down
+    const containers: ContextType[] = [];
+    const isArrayIndex = (depth: number) => containers[depth] === 'array';
+    // Values completed before the checkpoint, which the replay describes again
+    const yielded = new Set<string>();
     
-    // Yield all complete values
-    for (const value of values) {
-      yield value;
-    }
+    return this.runWatcher('watchComplete ' + pointer, subscription, (batch, results) => {
+      if (batch.events[0]?.offset === -1) {
+        // Synthesized batches describe the state from the root
+        containers.length = 0;
+      }
+      for (const event of batch.events) {
+        switch (event.type) {
+          case 'startObject':
+            containers.push('object');
+            break;
+          case 'startArray':
+            containers.push('array');
+            break;
+          case 'endObject':
+          case 'endArray':
+          case 'value': {
+            if (event.type !== 'value') {
+              containers.pop();
+            }
+            if (!pointerParser.matchesPath(event.path, isArrayIndex)) {
+              break;
+            }
+            const id = event.document + event.path;
+            if (batch.restored) {
+              yielded.add(id);
+            } else if (event.offset !== -1 || !yielded.has(id)) {
+              results.push(multiDocument ? { document: event.document!, value: event.value } : event.value);
+            }
+            break;
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Exposes the values watched at a JSON Pointer path as an object-mode ReadableStream,
+   * for use in `pipeThrough()` / `pipeTo()` pipelines. Values are produced with the
+   * semantics of `watch()` and only as fast as the stream is read: while its queue is
+   * full the source is not read further, unless other consumers of the parser (such as
+   * `getFullResponse()`) read it. Cancelling the stream stops watching.
+   *
+   * @param pointer - JSON Pointer string (e.g., "/items/*")
+   * @param options - Options of `watch()` and the read-ahead of the stream
+   * @returns ReadableStream of the watched values
+   *
+   * @example
+   * ```typescript
+   * await parser
+   *   .toReadableStream('/items/*', { waitForStructuralCompletion: true })
+   *   .pipeThrough(new TransformStream({
+   *     transform(item, controller) {
+   *       if (item.visible) controller.enqueue(JSON.stringify(item) + '\n');
+   *     },
+   *   }))
+   *   .pipeTo(destination);
+   * ```
+   */
+  toReadableStream(pointer: string, options: ToReadableStreamOptions = {}): ReadableStream<any> {
+    const { highWaterMark = 1, resume, signal, cancelSource, ...pointerOptions } = options;
+    const values = this.watchValues(pointer, pointerOptions, {
+      restored: resume,
+      signal,
+      cancelSource,
+      backpressure: true,
+    });
+    return new ReadableStream<any>(
+      {
+        async pull(controller) {
+          const { done, value } = await values.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        },
+        async cancel() {
+          await values.return();
+        },
+      },
+      { highWaterMark }
+    );
   }
 
   /**
    * Alias for watch() method - monitors a specific path for changes
    */
-  observe(pointer: string, options?: JSONPointerOptions): AsyncGenerator<any, void, unknown> {
+  observe(pointer: string, options?: JSONPointerOptions & WatchOptions): AsyncGenerator<any, void, unknown> {
     return this.watch(pointer, options);
   }
 
   /**
-   * Selects JSON nodes matching the given pointer path
-   * Returns StreamingJsonNode objects that can be further navigated or iterated
+   * Selects JSON nodes matching the given pointer path.
+   * Each node is yielded as soon as its path appears in the stream, so it can be
+   * navigated or iterated while its value is still being parsed.
+   * Wildcards match both array elements and object members.
    * 
    * @param pointer - JSON Pointer string (e.g., "/items/*" or "/data/0/name")
+   * @param options - Signal to stop selecting with
    * @yields StreamingJsonNode objects for matching paths
    */
-  async *select(pointer: string): AsyncGenerator<StreamingJsonNode<T>> {
-    // Special case for empty pointer (root)
-    if (pointer === '') {
-      const fullResponse = await this.getFullResponse();
-      const type = this.determineNodeType(fullResponse, '');
-      yield new StreamingJsonNode<T>(this, '', type);
-      return;
-    }
-    
-    // For wildcard paths, we need to enumerate all matching paths
-    const fullResponse = await this.getFullResponse();
-    const paths = this.extractMatchingPaths(fullResponse, pointer);
+  async *select(pointer: string, options?: AbortOptions): AsyncGenerator<StreamingJsonNode<T>> {
+    const pointerParser = new JSONPointerParser<T>(pointer);
+    yield* this.selectWhere((path) => pointerParser.matchesPath(path, () => true), null, options);
+  }
+
+  /**
+   * Yields a node for every path accepted by `matches`, in stream order.
+   * When `scope` is given, stops once the structure at that path is closed,
+   * since no matching path can appear after it.
+   * @internal
+   */
+  async *selectWhere(
+    matches: (path: string) => boolean,
+    scope: string | null = null,
+    options: AbortOptions = {}
+  ): AsyncGenerator<StreamingJsonNode<T>> {
+    // Types of the containers enclosing the current event, from the root down
+    const containers: ContextType[] = [];
     
-    // Yield a node for each matching path
-    for (const path of paths) {
-      const type = this.determineNodeType(fullResponse, path);
-      yield new StreamingJsonNode<T>(this, path, type);
+    // Nodes keep reading the stream after the selection stops
+    for await (const batch of this.stream.subscribe({ signal: options.signal, cancelSource: false })) {
+      for (const event of batch.events) {
+        switch (event.type) {
+          case 'startObject':
+          case 'startArray': {
+            const type = event.type === 'startObject' ? 'object' : 'array';
+            if (matches(event.path)) {
+              yield new StreamingJsonNode<T>(this, event.path, type, containers.slice());
+            }
+            containers.push(type);
+            break;
+          }
+          case 'value':
+            if (matches(event.path)) {
+              yield new StreamingJsonNode<T>(this, event.path, 'primitive', containers.slice());
+            }
+            if (event.path === scope) {
+              return;
+            }
+            break;
+          case 'endObject':
+          case 'endArray':
+            containers.pop();
+            if (event.path === scope) {
+              return;
+            }
+            break;
+        }
+      }
     }
   }
   
@@ -226,10 +708,11 @@ export class StreamingJsonParser<T = any> {
    * Returns the first node matching the given pointer path
    * 
    * @param pointer - JSON Pointer string
+   * @param options - Signal to stop waiting with
    * @returns First matching StreamingJsonNode or null
    */
-  async querySelector(pointer: string): Promise<StreamingJsonNode<T> | null> {
-    for await (const node of this.select(pointer)) {
+  async querySelector(pointer: string, options?: AbortOptions): Promise<StreamingJsonNode<T> | null> {
+    for await (const node of this.select(pointer, options)) {
       return node;
     }
     return null;
@@ -238,13 +721,14 @@ export class StreamingJsonParser<T = any> {
   /**
    * Alias for select() - returns all nodes matching the pointer
    */
-  querySelectorAll(pointer: string): AsyncGenerator<StreamingJsonNode<T>> {
-    return this.select(pointer);
+  querySelectorAll(pointer: string, options?: AbortOptions): AsyncGenerator<StreamingJsonNode<T>> {
+    return this.select(pointer, options);
   }
 
   /**
    * Reads the entire JSON stream and yields partial updates as they arrive.
    * 
+   * @param options - Options for cancelling
    * @yields Partial JSON objects as they are built up
    * 
    * @example
@@ -254,30 +738,113 @@ export class StreamingJsonParser<T = any> {
    * }
    * ```
    */
-  async *readPartial(): AsyncGenerator<DeepPartial<T>, void, unknown> {
-    // Mark as active watch to prevent concurrent background consumption
-    this.activeWatch = true;
-    
-    try {
-      for await (const update of incrementalJsonParser<T>(this.reader)) {
-        this.currentSnapshot = update;
-        this.fullResponse = this.currentSnapshot as T;
+  readPartial(options: CancelOptions = {}): AsyncGenerator<DeepPartial<T>, void, unknown> {
+    return this.readSnapshots(this.subscription(options));
+  }
+
+  /**
+   * Implements `readPartial()` with control over how the shared stream is subscribed to
+   */
+  private async *readSnapshots(subscription: SubscribeOptions): AsyncGenerator<DeepPartial<T>, void, unknown> {
+    for await (const batch of this.stream.subscribe(subscription)) {
+      for (const update of batch.updates) {
+        if (update === undefined || (!this.options.partialStrings && isPartialUpdate(update))) {
+          continue;
+        }
         yield update;
       }
-      this.completed = true;
-    } catch (error) {
-      this.error = normalizeError(error);
-      throw this.error;
-    } finally {
-      this.activeWatch = false;
     }
   }
 
+  /**
+   * Resolves with the first structurally complete value at a JSON Pointer path,
+   * as soon as it has been parsed, without waiting for the rest of the stream.
+   * The rest of the stream stays available to consumers created later; pass
+   * `cancelSource: true` to cancel the source once the value is available.
+   * 
+   * @param pointer - JSON Pointer string (e.g., "/metadata")
+   * @param options - Options for cancelling
+   * @returns The value (a `DocumentMatch` in multi-document mode), or undefined
+   *   if the stream ends without a match
+   * 
+   * @example
+   * ```typescript
+   * const metadata = await streamReader.first('/metadata');
+   * ```
+   */
+  async first(pointer: string, options: CancelOptions = {}): Promise<any> {
+    const [value] = await this.take(pointer, 1, options);
+    return value;
+  }
+
+  /**
+   * Resolves with the first `count` structurally complete values at a JSON Pointer
+   * path as soon as they have been parsed, or with fewer if the stream ends first.
+   * The source is only read as far as needed, and cancelled once the values are
+   * available with `cancelSource: true`.
+   * 
+   * @param pointer - JSON Pointer string (e.g., "/items/*")
+   * @param count - Number of values to wait for
+   * @param options - Options for cancelling
+   * @returns The values, as `DocumentMatch` objects in multi-document mode
+   * 
+   * @example
+   * ```typescript
+   * const preview = await streamReader.take('/items/*', 5);
+   * ```
+   */
+  async take(pointer: string, count: number, options: CancelOptions = {}): Promise<any[]> {
+    const values: any[] = [];
+    if (count <= 0) {
+      return values;
+    }
+    // Only reads the source as far as needed, and keeps it for later consumers by default
+    const cancelSource = options.cancelSource ?? false;
+    const subscription = { ...this.subscription({ ...options, cancelSource }), backpressure: true };
+    for await (const value of this.watchCompleteValues(pointer, subscription)) {
+      values.push(value);
+      if (values.length >= count) {
+        break;
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Resolves with the first snapshot, as yielded by `readPartial()`, for which
+   * `predicate` returns true, without waiting for the rest of the stream.
+   * The source is cancelled once the predicate holds with `cancelSource: true`.
+   * 
+   * @param predicate - Called with every new snapshot
+   * @param options - Options for cancelling
+   * @returns The snapshot, or undefined if the stream ends before the predicate holds
+   * 
+   * @example
+   * ```typescript
+   * const snapshot = await streamReader.until((data) => data.status !== undefined);
+   * ```
+   */
+  async until(
+    predicate: (snapshot: DeepPartial<T>) => boolean,
+    options: CancelOptions = {}
+  ): Promise<DeepPartial<T> | undefined> {
+    const cancelSource = options.cancelSource ?? false;
+    const subscription = { ...this.subscription({ ...options, cancelSource }), backpressure: true };
+    for await (const snapshot of this.readSnapshots(subscription)) {
+      if (predicate(snapshot)) {
+        return snapshot;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Gets the complete response after the stream has finished.
    * Waits for the stream to complete if it hasn't already.
    * 
-   * @returns Promise that resolves to the complete JSON object
+   * @param options - Options for cancelling
+   * @returns Promise that resolves to the complete JSON object, or to the array of
+   *   documents in multi-document mode
    * @throws Error if the stream encounters an error or invalid JSON
    * 
    * @example
@@ -286,32 +853,14 @@ export class StreamingJsonParser<T = any> {
    * console.log('Complete response:', fullData);
    * ```
    */
-  async getFullResponse(): Promise<T> {
-    if (this.completed && this.fullResponse !== null) {
-      return this.fullResponse;
-    }
+  async getFullResponse(options: CancelOptions = {}): Promise<T> {
+    await this.stream.drain(options);
     
-    if (this.error) {
-      throw this.error;
-    }
-    
-    // Ensure the stream is being consumed
-    this.ensureConsuming();
-    
-    // Wait for consumption to complete
-    if (this.consumePromise) {
-      await this.consumePromise;
-    }
-    
-    if (this.error) {
-      throw this.error;
-    }
-    
-    if (this.fullResponse === null) {
+    if (this.stream.result === undefined) {
       throw new Error('Failed to get full response');
     }
     
-    return this.fullResponse;
+    return this.stream.result as T;
   }
 
   /**
@@ -329,160 +878,118 @@ export class StreamingJsonParser<T = any> {
    * ```
    */
   getCurrentSnapshot(): DeepPartial<T> | null {
-    return this.currentSnapshot;
+    const snapshot = this.options.partialStrings ? this.stream.latest : this.stream.latestComplete;
+    return snapshot === undefined ? null : snapshot;
   }
 
   /**
-   * Ensures the stream is being consumed in the background
-   * Only starts background consumption if no active consumption is happening
+   * Returns the repairs applied to the input so far.
+   * Only the `repair` option produces repairs; use `onRepair` to be notified as they happen.
+   * 
+   * @example
+   * ```typescript
+   * const parser = new StreamingJsonParser(reader, { repair: true });
+   * const data = await parser.getFullResponse();
+   * for (const { kind, pointer } of parser.getRepairs()) {
+   *   console.warn(`Repaired ${kind} at ${pointer}`);
+   * }
+   * ```
    */
-  private ensureConsuming(): void {
-    // Don't start background consumption if we're already consuming or completed
-    if (!this.consumePromise && !this.completed && !this.activeWatch) {
-      this.consumePromise = this.consumeInBackground();
-    }
+  getRepairs(): JsonRepair[] {
+    return this.stream.repairs.slice();
   }
 
   /**
-   * Consumes the stream in the background to build the full response
+   * Saves the state of everything parsed so far in a JSON-safe form, so that a long
+   * job can resume after a restart by re-opening the source at `offset` bytes and
+   * passing the checkpoint to a new parser with the same options.
+   * The results that watchers have parsed but not yielded yet are saved as well:
+   * watchers of the new parser created with `{ resume: true }` yield them first, then
+   * skip every other match the checkpoint contains. Take it after handling each result
+   * to resume exactly where the job stopped. Watchers are matched by method, pointer
+   * and the order in which they are created.
+   * 
+   * @example
+   * ```typescript
+   * // After a restart
+   * const checkpoint = await loadCheckpoint();
+   * const reader = await openSource({ start: checkpoint.offset });
+   * const resumed = new StreamingJsonParser(reader, { checkpoint });
+   * for await (const item of resumed.watchComplete('/items/*', { resume: true })) {
+   *   await store(item);
+   * }
+   * ```
    */
-  private async consumeInBackground(): Promise<void> {
-    try {
-      const parser = new IncrementalParser();
-      const decoder = createStreamDecoder();
-      
-      while (true) {
-        const { done, value } = await this.reader.read();
-        
-        if (done) {
-          parser.end();
-          const updates = parser.collectUpdates();
-          if (updates.length > 0) {
-            this.currentSnapshot = updates[updates.length - 1];
-          }
-          // Set fullResponse to the current snapshot (should be complete now)
-          if (this.currentSnapshot !== null) {
-            this.fullResponse = this.currentSnapshot as T;
-          }
-          this.completed = true;
-          break;
-        }
-        
-        const chunk = decodeStreamChunk(value, decoder);
-        parser.feed(chunk);
-        
-        const updates = parser.collectUpdates();
-        if (updates.length > 0) {
-          this.currentSnapshot = updates[updates.length - 1];
-        }
+  checkpoint(): JsonParserCheckpoint {
+    const checkpoint = this.stream.checkpoint();
+    for (const watcher of this.watchers) {
+      watcher.drain();
+      if (watcher.next < watcher.results.length) {
+        checkpoint.watchers ??= {};
+        checkpoint.watchers[watcher.key] = watcher.results
+          .slice(watcher.next)
+          .map((result) => encodeCheckpointValue(result));
       }
-    } catch (error) {
-      this.error = normalizeError(error);
-      throw this.error;
     }
+    return checkpoint;
   }
 
   /**
-   * Creates a cloned reader for parallel consumption
-   * Note: This is a simplified implementation. In a real-world scenario,
-   * you would need a more sophisticated approach to handle multiple consumers.
-   */
-  private async getClonedReader(): Promise<ReadableStreamDefaultReader<Uint8Array | string>> {
-    // For now, we'll throw an error indicating this needs to be implemented
-    // based on the specific use case (e.g., using a BroadcastChannel, 
-    // buffering, or requiring the source to be tee-able)
-    
-    // In practice, you might want to:
-    // 1. Buffer all chunks as they arrive
-    // 2. Create new readers that replay the buffered chunks
-    // 3. Or require the input to be a tee-able stream
-    
-    // For the initial implementation, we'll return the original reader
-    // This means only one consumer can be active at a time
-    return this.reader;
-  }
-  
-  /**
-   * Extracts all paths matching the given pointer pattern
+   * Yields the results `process` produces from every batch of the shared stream.
+   * Batches stay queued until the watcher needs them or a checkpoint is taken,
+   * which saves the results not yielded yet; with `restored`, the results saved
+   * for the same watcher in the checkpoint the parser was created with come first.
    */
-  private extractMatchingPaths(data: any, pointer: string): string[] {
-    const paths: string[] = [];
-    const segments = pointer.split('/').filter(s => s !== '');
-    
-    const traverse = (current: any, currentPath: string[], pointerIndex: number) => {
-      if (pointerIndex >= segments.length) {
-        // We've matched all segments
-        paths.push('/' + currentPath.join('/'));
-        return;
-      }
-      
-      const segment = segments[pointerIndex];
-      
-      if (segment === '*') {
-        // Wildcard - match all array elements or object keys
-        if (Array.isArray(current)) {
-          for (let i = 0; i < current.length; i++) {
-            traverse(current[i], [...currentPath, i.toString()], pointerIndex + 1);
-          }
-        } else if (current && typeof current === 'object') {
-          for (const key of Object.keys(current)) {
-            traverse(current[key], [...currentPath, key], pointerIndex + 1);
-          }
-        }
-      } else {
-        // Exact match
-        if (Array.isArray(current)) {
-          const index = parseInt(segment, 10);
-          if (!isNaN(index) && index >= 0 && index < current.length) {
-            traverse(current[index], [...currentPath, segment], pointerIndex + 1);
-          }
-        } else if (current && typeof current === 'object' && segment in current) {
-          traverse(current[segment], [...currentPath, segment], pointerIndex + 1);
+  private async *runWatcher<R>(
+    name: string,
+    subscription: SubscribeOptions,
+    process: (batch: ParseBatch, results: R[]) => void
+  ): AsyncGenerator<R, void, unknown> {
+    const count = this.watcherCounts.get(name) ?? 0;
+    this.watcherCounts.set(name, count + 1);
+    const key = count === 0 ? name : `${name} #${count + 1}`;
+    const queue: ParseBatch[] = [];
+    const watcher: ActiveWatcher = {
+      key,
+      results: [],
+      next: 0,
+      drain: () => {
+        for (const batch of queue.splice(0)) {
+          process(batch, watcher.results);
         }
-      }
+      },
     };
-    
-    traverse(data, [], 0);
-    return paths;
-  }
-  
-  /**
-   * Determines the type of a node at the given path
-   */
-  private determineNodeType(data: any, path: string): 'object' | 'array' | 'primitive' | 'unknown' {
-    if (path === '') {
-      // Root path
-      if (Array.isArray(data)) return 'array';
-      if (data && typeof data === 'object') return 'object';
-      return 'primitive';
+    const saved = subscription.restored ? this.options.checkpoint?.watchers?.[key] : undefined;
+    if (saved) {
+      const decodeOptions = {
+        nullPrototype: this.options.nullPrototype ?? false,
+        seal: <V extends object>(value: V) => (this.options.freezeSnapshots ? Object.freeze(value) : value),
+        onObject: () => {},
+      };
+      watcher.results = saved.map((result) => decodeCheckpointValue(result, decodeOptions));
     }
     
-    // Navigate to the value at the path
-    const segments = path.split('/').filter(s => s !== '');
-    let current = data;
-    
-    for (const segment of segments) {
-      if (!current || typeof current !== 'object') {
-        return 'unknown';
-      }
-      
-      if (Array.isArray(current)) {
-        const index = parseInt(segment, 10);
-        if (isNaN(index) || index < 0 || index >= current.length) {
-          return 'unknown';
+    const batches = this.stream.subscribe({ ...subscription, queue });
+    this.watchers.add(watcher);
+    try {
+      while (true) {
+        while (watcher.next < watcher.results.length) {
+          yield watcher.results[watcher.next++];
         }
-        current = current[index];
-      } else {
-        if (!(segment in current)) {
-          return 'unknown';
+        watcher.results = [];
+        watcher.next = 0;
+        if ((await batches.next()).done) {
+          return;
         }
-        current = current[segment];
+        watcher.drain();
       }
+    } finally {
+      this.watchers.delete(watcher);
+      await batches.return();
     }
-    
-    // Determine type of the final value
-    if (Array.isArray(current)) return 'array';
-    if (current && typeof current === 'object') return 'object';
-    return 'primitive';
   }
-}
\ No newline at end of file
+
+  private subscription(options: WatchOptions = {}): SubscribeOptions {
+    return { restored: options.resume, signal: options.signal, cancelSource: options.cancelSource };
+  }
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { StreamingJsonParser } from "./streaming-json-parser";
 import { createJSONReadableStreamDefaultReader } from "./utils/test-helpers/create-json-readable-stream-default-reader";
+import { createControlledReader } from "./utils/test-helpers/create-controlled-reader";
 
 describe("StreamingJsonParser watchComplete", () => {
   it("should wait for complete JSON before yielding values", async () => {
@@ -180,4 +181,61 @@ describe("StreamingJsonParser watchComplete", () => {
     expect(results[3]).toEqual([1, 2, 3]);
     expect(results[4]).toBeNull();
   });
-});
\ No newline at end of file
+});
+describe("StreamingJsonParser watchComplete streaming", () => {
+  it("should yield each value as soon as its closing delimiter is parsed", async () => {
+    const { controller, reader } = createControlledReader();
+    const parser = new StreamingJsonParser(reader);
+    const iterator = parser.watchComplete('/items/*');
+
+    controller.enqueue('{"items": [{"id": 1, "tags": ["a"]}, {"id": ');
+    expect(await iterator.next()).toEqual({ value: { id: 1, tags: ["a"] }, done: false });
+
+    controller.enqueue('2}');
+    expect(await iterator.next()).toEqual({ value: { id: 2 }, done: false });
+
+    controller.enqueue(']}');
+    controller.close();
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it("should only match array elements with wildcards", async () => {
+    const json = '{"items": {"a": {"id": 1}}, "list": [{"id": 2}]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 4);
+    const parser = new StreamingJsonParser(reader);
+
+    const results: any[] = [];
+    for await (const item of parser.watchComplete('/*/*')) {
+      results.push(item);
+    }
+
+    expect(results).toEqual([]);
+  });
+
+  it("should yield the root value for the empty pointer", async () => {
+    const json = '{"a": [1, 2]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 4);
+    const parser = new StreamingJsonParser(reader);
+
+    const results: any[] = [];
+    for await (const value of parser.watchComplete('')) {
+      results.push(value);
+    }
+
+    expect(results).toEqual([{ a: [1, 2] }]);
+  });
+
+  it("should replay values that were closed before it started", async () => {
+    const json = '{"items": [{"id": 1}, {"id": 2}], "tail": [3]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 4);
+    const parser = new StreamingJsonParser(reader);
+    await parser.getFullResponse();
+
+    const results: any[] = [];
+    for await (const item of parser.watchComplete('/items/*')) {
+      results.push(item);
+    }
+
+    expect(results).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+});
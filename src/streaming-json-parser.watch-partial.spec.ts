@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { StreamingJsonParser } from "./streaming-json-parser";
+import { createJSONReadableStreamDefaultReader } from "./utils/test-helpers/create-json-readable-stream-default-reader";
+
+describe("StreamingJsonParser watchPartial", () => {
+  it("should yield evolving partial items until they close", async () => {
+    const json = '{"items": [{"id": 1, "name": "A"}, {"id": 2, "name": "B"}]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 1);
+    const parser = new StreamingJsonParser(reader);
+
+    const results: any[] = [];
+    for await (const match of parser.watchPartial("/items/*")) {
+      results.push(match);
+    }
+
+    expect(results.filter((r) => r.index === 0).map((r) => [r.value, r.done])).toEqual([
+      [{}, false],
+      [{ id: 1 }, false],
+      [{ id: 1, name: "A" }, false],
+      [{ id: 1, name: "A" }, true],
+    ]);
+    expect(results[results.length - 1]).toEqual({
+      path: "/items/1",
+      index: 1,
+      value: { id: 2, name: "B" },
+      done: true,
+    });
+  });
+
+  it("should only report an item as done once its closing brace is parsed", async () => {
+    const json = '{"items": [{"id": 1}, {"id": 2}]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 5);
+    const parser = new StreamingJsonParser(reader);
+
+    const results: any[] = [];
+    for await (const match of parser.watchPartial("/items/*")) {
+      results.push(match);
+    }
+
+    const firstDone = results.findIndex((r) => r.path === "/items/0" && r.done);
+    expect(firstDone).toBeGreaterThan(-1);
+    expect(results.slice(firstDone + 1).some((r) => r.path === "/items/0")).toBe(false);
+    expect(results.filter((r) => r.done).map((r) => r.value)).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it("should report primitive matches as done immediately", async () => {
+    const json = '{"tags": ["a", "b", 3]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 4);
+    const parser = new StreamingJsonParser(reader);
+
+    const results: any[] = [];
+    for await (const match of parser.watchPartial("/tags/*")) {
+      results.push(match);
+    }
+
+    expect(results).toEqual([
+      { path: "/tags/0", index: 0, value: "a", done: true },
+      { path: "/tags/1", index: 1, value: "b", done: true },
+      { path: "/tags/2", index: 2, value: 3, done: true },
+    ]);
+  });
+
+  it("should include growing strings when partialStrings is enabled", async () => {
+    const json = '{"items": [{"text": "Hello world"}]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 6);
+    const parser = new StreamingJsonParser(reader, { partialStrings: true });
+
+    const texts: string[] = [];
+    for await (const { value } of parser.watchPartial("/items/*")) {
+      if (value.text !== undefined) texts.push(value.text);
+    }
+
+    expect(texts.length).toBeGreaterThan(2);
+    expect(texts[texts.length - 1]).toBe("Hello world");
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { StreamingJsonParser } from "./streaming-json-parser";
+import { createJSONReadableStreamDefaultReader } from "./utils/test-helpers/create-json-readable-stream-default-reader";
+
+describe("StreamingJsonParser watchText", () => {
+  it("should yield only newly appended characters", async () => {
+    const json = '{"story": "Once upon a time"}';
+    const reader = createJSONReadableStreamDefaultReader(json, 6);
+    const parser = new StreamingJsonParser(reader);
+
+    const deltas: any[] = [];
+    for await (const delta of parser.watchText("/story")) {
+      deltas.push(delta);
+    }
+
+    expect(deltas.map((d) => d.delta).join("")).toBe("Once upon a time");
+    expect(deltas.length).toBeGreaterThan(2);
+    expect(deltas.every((d) => d.path === "/story")).toBe(true);
+    expect(deltas.filter((d) => d.done)).toHaveLength(1);
+    expect(deltas[deltas.length - 1].done).toBe(true);
+  });
+
+  it("should emit a final done delta when the string closes", async () => {
+    const json = '{"story": "abc", "n": 1}';
+    const reader = createJSONReadableStreamDefaultReader(json, 13);
+    const parser = new StreamingJsonParser(reader);
+
+    const deltas: any[] = [];
+    for await (const delta of parser.watchText("/story")) {
+      deltas.push(delta);
+    }
+
+    expect(deltas).toEqual([
+      { path: "/story", delta: "ab", done: false },
+      { path: "/story", delta: "c", done: true },
+    ]);
+  });
+
+  it("should decode escapes split across chunks", async () => {
+    const json = '{"story": "line\\nnext \\u00e9"}';
+    const reader = createJSONReadableStreamDefaultReader(json, 1);
+    const parser = new StreamingJsonParser(reader);
+
+    let text = "";
+    for await (const { delta } of parser.watchText("/story")) {
+      text += delta;
+    }
+
+    expect(text).toBe("line\nnext é");
+  });
+
+  it("should tag deltas with the concrete path for wildcards", async () => {
+    const json = JSON.stringify({
+      items: [{ text: "Hello there" }, { text: "General Kenobi" }],
+    });
+    const reader = createJSONReadableStreamDefaultReader(json, 5);
+    const parser = new StreamingJsonParser(reader);
+
+    const texts: Record<string, string> = {};
+    const done: string[] = [];
+    for await (const { path, delta, done: isDone } of parser.watchText("/items/*/text")) {
+      texts[path] = (texts[path] ?? "") + delta;
+      if (isDone) done.push(path);
+    }
+
+    expect(texts).toEqual({
+      "/items/0/text": "Hello there",
+      "/items/1/text": "General Kenobi",
+    });
+    expect(done).toEqual(["/items/0/text", "/items/1/text"]);
+  });
+
+  it("should ignore non-string values", async () => {
+    const json = '{"items": [{"text": 1}, {"text": "ok"}]}';
+    const reader = createJSONReadableStreamDefaultReader(json, 4);
+    const parser = new StreamingJsonParser(reader);
+
+    const deltas: any[] = [];
+    for await (const delta of parser.watchText("/items/*/text")) {
+      deltas.push(delta);
+    }
+
+    expect(deltas.every((d) => d.path === "/items/1/text")).toBe(true);
+    expect(deltas.map((d) => d.delta).join("")).toBe("ok");
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { createObjectStreamingParser, ObjectStreamExtractors } from "./index";
+import {
+  createObjectStreamingParser,
+  createSSEJsonStreamingParser,
+  ObjectStreamExtractors,
+  SSEJsonExtractors,
+} from "./index";
 import type { ChatCompletionChunk } from "openai/resources/index.mjs";
 
 // Define the expected story structure
@@ -176,6 +181,72 @@ describe("OpenAI Streaming Parser Adapter", () => {
 
     console.log("Items from response with empty chunks:", items);
   });
+
+  it("should pass parser options through to the StreamingJsonParser", async () => {
+    const chunks = ["{items: [", "{text: 'a'},", " // comment\n", "]}"];
+    const stream: AsyncIterable<ChatCompletionChunk> = {
+      async *[Symbol.asyncIterator]() {
+        for (const content of chunks) {
+          yield {
+            id: "chatcmpl-mock",
+            object: "chat.completion.chunk",
+            created: Date.now(),
+            model: "gpt-4",
+            choices: [{ index: 0, delta: { content }, finish_reason: null }],
+          } as ChatCompletionChunk;
+        }
+      },
+    };
+    const parser = createObjectStreamingParser(stream, {
+      ...ObjectStreamExtractors.openAIChatCompletions,
+      syntax: "json5",
+    });
+
+    expect(await parser.getFullResponse()).toEqual({ items: [{ text: "a" }] });
+  });
+
+  it("should extract the JSON payload from fenced model output", async () => {
+    const chunks = ["Here you go:\n```js", "on\n{\"items\": [{\"te", "xt\": \"a\"}]}\n``", "`\nEnjoy!"];
+    const stream: AsyncIterable<ChatCompletionChunk> = {
+      async *[Symbol.asyncIterator]() {
+        for (const content of chunks) {
+          yield {
+            id: "chatcmpl-mock",
+            object: "chat.completion.chunk",
+            created: Date.now(),
+            model: "gpt-4",
+            choices: [{ index: 0, delta: { content }, finish_reason: null }],
+          } as ChatCompletionChunk;
+        }
+      },
+    };
+    const parser = createObjectStreamingParser(stream, {
+      ...ObjectStreamExtractors.openAIChatCompletions,
+      extractPayload: true,
+    });
+
+    expect(await parser.getFullResponse()).toEqual({ items: [{ text: "a" }] });
+  });
+
+  it("should extract the JSON payload from an SSE stream", async () => {
+    const contents = ["Result: ```json\n{\"ok\"", ": true}\n```", " done"];
+    const sse = contents
+      .map((content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`)
+      .join("");
+    const encoder = new TextEncoder();
+    const sseStream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(sse));
+        controller.close();
+      },
+    });
+    const parser = createSSEJsonStreamingParser(sseStream, {
+      ...SSEJsonExtractors.openAIChatCompletions,
+      extractPayload: true,
+    });
+
+    expect(await parser.getFullResponse()).toEqual({ ok: true });
+  });
 });
 
 // Manual test runner (can be replaced with proper test framework)
@@ -1,10 +1,11 @@
-import { StreamingJsonParser } from "./streaming-json-parser";
+import { StreamingJsonParser, type StreamingJsonParserOptions } from "./streaming-json-parser";
 import { parseSSEStream } from "./utils/sse";
 
 /**
- * Options for extracting JSON content from SSE messages
+ * Options for extracting JSON content from SSE messages.
+ * Parser options (e.g. `syntax`, `strict`) are passed on to the StreamingJsonParser.
  */
-export interface SSEJsonExtractorOptions {
+export interface SSEJsonExtractorOptions extends StreamingJsonParserOptions {
   /**
    * Function to extract JSON content from each SSE message object
    * @param sseMessage - The parsed SSE message object
@@ -21,9 +22,10 @@ export interface SSEJsonExtractorOptions {
 }
 
 /**
- * Options for extracting content from streaming objects
+ * Options for extracting content from streaming objects.
+ * Parser options (e.g. `syntax`, `strict`) are passed on to the StreamingJsonParser.
  */
-export interface ObjectStreamExtractorOptions<T> {
+export interface ObjectStreamExtractorOptions<T> extends StreamingJsonParserOptions {
   /**
    * Function to extract content from each streaming object
    * @param chunk - The streaming object/chunk
@@ -71,8 +73,10 @@ export function createSSEJsonStreamingParser(
   sseStream: ReadableStream<Uint8Array>,
   options: SSEJsonExtractorOptions
 ): StreamingJsonParser {
+  const { extractContent, shouldEnd, ...parserOptions } = options;
+
   // Parse SSE stream to get JSON strings
-  const sseJsonStream = parseSSEStream(sseStream);
+  const sseJsonStream = parseSSEStream(sseStream, { limits: parserOptions.limits });
   const sseReader = sseJsonStream.getReader();
 
   // Create a new stream that extracts and reconstructs the inner JSON
@@ -90,13 +94,13 @@ export function createSSEJsonStreamingParser(
             const sseMessage = JSON.parse(value);
 
             // Check if we should end the stream
-            if (options.shouldEnd && options.shouldEnd(sseMessage)) {
+            if (shouldEnd && shouldEnd(sseMessage)) {
               controller.close();
               break;
             }
 
             // Extract content using the provided function
-            const content = options.extractContent(sseMessage);
+            const content = extractContent(sseMessage);
             if (content !== null) {
               controller.enqueue(content);
             }
@@ -111,9 +115,13 @@ export function createSSEJsonStreamingParser(
         sseReader.releaseLock();
       }
     },
+    cancel(reason) {
+      // Cancels the SSE stream, e.g. stops downloading the HTTP response
+      return sseReader.cancel(reason);
+    },
   });
 
-  return new StreamingJsonParser(innerJsonStream.getReader());
+  return new StreamingJsonParser(innerJsonStream.getReader(), parserOptions);
 }
 
 /**
@@ -140,38 +148,52 @@ export function createObjectStreamingParser<T>(
   objectStream: AsyncIterable<T>,
   options: ObjectStreamExtractorOptions<T>
 ): StreamingJsonParser {
+  const { extractContent, shouldEnd, ...parserOptions } = options;
+
+  const iterator = objectStream[Symbol.asyncIterator]();
+  let cancelled = false;
+
   // Create a stream that extracts content from parsed objects
   const contentStream = new ReadableStream<string>({
     async start(controller) {
       try {
-        let streamEnded = false;
-        
-        for await (const chunk of objectStream) {
+        while (true) {
+          const { done, value: chunk } = await iterator.next();
+          if (cancelled) {
+            return;
+          }
+          if (done) {
+            controller.close();
+            return;
+          }
+
           // Check if we should end the stream
-          if (options.shouldEnd && options.shouldEnd(chunk)) {
+          if (shouldEnd && shouldEnd(chunk)) {
             controller.close();
-            streamEnded = true;
-            break;
+            await iterator.return?.();
+            return;
           }
 
           // Extract content using the provided function
-          const content = options.extractContent(chunk);
+          const content = extractContent(chunk);
           if (content !== null) {
             controller.enqueue(content);
           }
         }
-
-        // Close the stream if we reach the end naturally and haven't already closed
-        if (!streamEnded) {
-          controller.close();
-        }
       } catch (error) {
-        controller.error(error);
+        if (!cancelled) {
+          controller.error(error);
+        }
       }
     },
+    async cancel(reason) {
+      // Stops the object stream, e.g. aborts the SDK request behind it
+      cancelled = true;
+      await iterator.return?.(reason);
+    },
   });
 
-  return new StreamingJsonParser(contentStream.getReader());
+  return new StreamingJsonParser(contentStream.getReader(), parserOptions);
 }
 
 /**
@@ -33,7 +33,161 @@ export type ContextState =
 /**
  * Parser state types
  */
-export type ParserState = "default" | "string" | "number" | "literal";
+export type ParserState =
+  | "default"
+  | "string"
+  | "number"
+  | "literal"
+  | "identifier"
+  | "comment";
+
+/**
+ * Input dialects accepted by the parser.
+ * - "json": RFC 8259 JSON
+ * - "jsonc": JSON with line and block comments and trailing commas
+ * - "json5": JSON5 (adds single-quoted strings, unquoted keys, hex numbers,
+ *   Infinity/NaN, leading/trailing decimal points and extra escapes)
+ */
+export type JsonSyntax = "json" | "jsonc" | "json5";
+
+/**
+ * How the parser converts number tokens
+ * - "number": JavaScript numbers (integers beyond 2^53 and long decimals lose precision)
+ * - "bigint": integers outside the safe integer range become BigInts, everything else numbers
+ * - "string": the source text of the number, e.g. "12345678901234567890" or "1.50"
+ * - a function receiving the source text and returning the value to use
+ */
+export type JsonNumberMode = "number" | "bigint" | "string" | ((raw: string) => unknown);
+
+/**
+ * Describes a completed value passed to a reviver or container factory
+ */
+export interface JsonValueContext {
+  /** JSON Pointer (RFC 6901) of the value */
+  path: string;
+  /** Source text of a primitive value, e.g. "1.50" or "\"caf\\u00e9\"" (absent for objects and arrays) */
+  rawText?: string;
+}
+
+/**
+ * Streaming counterpart of the `JSON.parse` reviver: receives every value once it is
+ * complete, innermost values first, and returns the value to use instead.
+ * `key` is the object member name or array index ("" for the root).
+ */
+export type JsonReviver = (key: string, value: unknown, context: JsonValueContext) => unknown;
+
+/**
+ * How the parser handles an object key that appears more than once
+ * - "last-wins": the last value replaces the earlier ones, like `JSON.parse`
+ * - "first-wins": the first value is kept and later ones are ignored
+ * - "error": a JsonStreamParseError with code "DUPLICATE_KEY" is thrown
+ */
+export type JsonDuplicateKeyPolicy = "last-wins" | "first-wins" | "error";
+
+/**
+ * Bounds on the resources a single stream may consume.
+ * Exceeding one fails the stream with a JsonStreamLimitError.
+ */
+export interface JsonParseLimits {
+  /** Maximum nesting depth of objects and arrays (the root container is depth 1) */
+  maxDepth?: number;
+  /** Maximum length of a string, key or number, in UTF-16 code units */
+  maxStringLength?: number;
+  /** Maximum number of members of a single object */
+  maxKeys?: number;
+  /** Maximum number of elements of a single array */
+  maxArrayLength?: number;
+  /**
+   * Maximum size of the JSON input, in UTF-8 bytes. The memory held by the parser
+   * grows linearly with the input, so this also bounds the size of the tree.
+   */
+  maxTotalBytes?: number;
+  /** Maximum size of a single Server-Sent Events line or message, in UTF-8 bytes */
+  maxSSEMessageBytes?: number;
+}
+
+/**
+ * Name of a resource limit
+ */
+export type JsonParseLimit = keyof JsonParseLimits;
+
+/**
+ * A parsed value stored in a parser checkpoint. Objects are wrapped so that the
+ * values JSON cannot represent (big integers, non-finite numbers, dates produced
+ * by the `dates` option, members removed by a reviver) can be tagged without ambiguity.
+ */
+export type JsonCheckpointValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonCheckpointValue[]
+  | { object: [string, JsonCheckpointValue][] }
+  | { bigint: string }
+  | { number: "NaN" | "Infinity" | "-Infinity" | "-0" }
+  | { date: string }
+  | { undefined: true };
+
+/**
+ * An open object or array saved in a parser checkpoint
+ */
+export interface JsonCheckpointContext {
+  type: ContextType;
+  state: ContextState;
+  path: string;
+  /** Key whose value is expected next, if any */
+  key: string | null;
+  /** Number of members or items parsed so far */
+  length: number;
+  /** Key or index of the container in its parent (null at the top level) */
+  parentKey: string | number | null;
+  ignored: boolean;
+  ignoreValue: boolean;
+  /** Keys seen so far, when duplicate keys are checked */
+  keys: string[] | null;
+}
+
+/**
+ * JSON-safe state of an IncrementalParser between two chunks, created by
+ * `checkpoint()` and resumed with `restore()`
+ */
+export interface JsonParserCheckpoint {
+  version: 1;
+  /** Number of UTF-8 bytes of input parsed so far: where the source must be re-opened */
+  offset: number;
+  /** Number of UTF-16 code units of input parsed so far */
+  charOffset: number;
+  line: number;
+  lineStart: number;
+  tokenOffset: number;
+  state: ParserState;
+  /** Partial token: the decoded text of an open string, or the characters of a number or literal */
+  token: string;
+  escape: boolean;
+  unicode: string | null;
+  unicodeLength: number;
+  quote: string;
+  continuation: boolean;
+  rawString: string;
+  publishedPartial: string | null;
+  recent: string;
+  document: number;
+  rootClosed: boolean;
+  /** Byte offset of the text skipped after the root value in repair mode, or -1 */
+  trailingTextOffset: number;
+  trailingTextLength: number;
+  /** Value parsed so far, including the open containers */
+  root: JsonCheckpointValue;
+  /** Documents completed so far in multi-document mode */
+  documents: JsonCheckpointValue[];
+  /** Open objects and arrays, from the root down */
+  stack: JsonCheckpointContext[];
+  /**
+   * Results parsed but not yielded yet by the watchers of a StreamingJsonParser,
+   * by method, pointer and creation order of the watcher
+   */
+  watchers?: Record<string, JsonCheckpointValue[]>;
+}
 
 /**
  * JSON value types
@@ -45,4 +199,102 @@ export type JSONArray = JSONValue[];
 /**
  * Stream reader type that can contain either string or binary data
  */
-export type StreamChunk = Uint8Array | string;
\ No newline at end of file
+export type StreamChunk = Uint8Array | string;
+
+/**
+ * Kinds of SAX-style events emitted while tokenizing a JSON stream
+ */
+export type JsonParseEventType =
+  | "startObject"
+  | "endObject"
+  | "startArray"
+  | "endArray"
+  | "key"
+  | "value";
+
+/**
+ * Fields shared by every parse event
+ */
+export interface JsonParseEventBase {
+  /** JSON Pointer (RFC 6901) of the value the event refers to */
+  path: string;
+  /** Byte offset (UTF-8) of the token that produced the event */
+  offset: number;
+  /** Index of the document the event belongs to (multi-document mode only) */
+  document?: number;
+}
+
+/**
+ * A SAX-style event describing a single token of the JSON stream
+ */
+export type JsonParseEvent =
+  | (JsonParseEventBase & { type: "startObject" | "startArray" })
+  | (JsonParseEventBase & {
+      type: "endObject" | "endArray";
+      /**
+       * The closed container as it appears in snapshots, or what the reviver and
+       * container factories turned it into (only when the tree is built)
+       */
+      value?: unknown;
+    })
+  | (JsonParseEventBase & { type: "key"; key: string })
+  | (JsonParseEventBase & {
+      type: "value";
+      /** The value, or whatever the `numbers` option converted a number to */
+      value: unknown;
+      /** Source text of a number, e.g. "1.50" (absent in events replayed from parsed state) */
+      raw?: string;
+    });
+
+/**
+ * Callback receiving parse events as they are produced
+ */
+export type JsonParseEventHandler = (event: JsonParseEvent) => void;
+
+/**
+ * Recovery rules applied by the parser in repair mode
+ * - "escapeControlCharacter": a raw control character (e.g. a newline) inside a string was kept as if escaped
+ * - "pythonLiteral": `True`, `False` or `None` was read as `true`, `false` or `null`
+ * - "insertComma": a missing comma between two values or members was inserted
+ * - "skipCharacter": a character that cannot start any token was ignored
+ * - "fixClosingBracket": a closing bracket that did not match the open structure closed it anyway
+ * - "dropClosingBracket": a closing bracket without an open structure was ignored
+ * - "closeString": a string left open at the end of the input was closed
+ * - "completeLiteral": a truncated literal (e.g. `tr`) was completed
+ * - "dropIncompleteValue": a truncated value that cannot be completed (e.g. `1e`) was dropped
+ * - "dropDanglingKey": an object key without a value was dropped
+ * - "closeComment": a comment left open at the end of the input was closed
+ * - "closeStructure": an object or array left open at the end of the input was closed
+ */
+export type JsonRepairKind =
+  | "escapeControlCharacter"
+  | "pythonLiteral"
+  | "singleQuotedString"
+  | "quoteKey"
+  | "insertColon"
+  | "insertComma"
+  | "skipCharacter"
+  | "skipTrailingText"
+  | "fixClosingBracket"
+  | "dropClosingBracket"
+  | "closeString"
+  | "completeLiteral"
+  | "dropIncompleteValue"
+  | "dropDanglingKey"
+  | "closeComment"
+  | "closeStructure";
+
+/**
+ * A repair applied to the input in repair mode
+ */
+export interface JsonRepair {
+  kind: JsonRepairKind;
+  /** Byte offset (UTF-8) in the input where the repair was applied */
+  offset: number;
+  /** JSON Pointer of the value, key or container the repair affects */
+  pointer: string;
+  /** Number of bytes (UTF-8) skipped, for `skipTrailingText` */
+  length?: number;
+}
+
+export type JsonRepairHandler = (repair: JsonRepair) => void;
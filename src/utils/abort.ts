@@ -0,0 +1,66 @@
+/**
+ * Options for cancelling an operation with an AbortSignal
+ */
+export interface AbortOptions {
+  /**
+   * Aborting rejects the operation with the signal's reason, an `AbortError`
+   * DOMException unless `abort()` was given one
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for consumers that may also cancel the source they read from
+ */
+export interface CancelOptions extends AbortOptions {
+  /**
+   * Whether to cancel the source when this consumer stops before the end of the
+   * stream: on abort, on `break` / `return()` out of a loop, or when parsing fails.
+   * Cancelling releases the source (an HTTP response stops downloading) and
+   * rejects every other consumer of the same stream with an `AbortError`.
+   * By default the source is cancelled when the last consumer stops early; pass
+   * `false` to keep it open for consumers created later. `first()`, `take()` and
+   * `until()` keep it open by default.
+   * @default true for the last consumer, false otherwise
+   */
+  cancelSource?: boolean;
+}
+
+/**
+ * Creates the DOMException named "AbortError" that aborted operations reject with
+ */
+export const createAbortError = (message = 'This operation was aborted'): Error => {
+  return new DOMException(message, 'AbortError');
+};
+
+/**
+ * Returns the error to reject with once `signal` is aborted
+ */
+export const getAbortReason = (signal: AbortSignal): Error => {
+  const reason: unknown = signal.reason;
+  if (reason instanceof Error) {
+    return reason;
+  }
+  return reason === undefined ? createAbortError() : new Error(String(reason));
+};
+
+/**
+ * Settles like `promise`, or rejects with the abort reason as soon as `signal` is aborted
+ */
+export const abortable = <V>(promise: Promise<V>, signal: AbortSignal | undefined): Promise<V> => {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    // The abandoned promise may still reject, e.g. when the source is cancelled
+    promise.catch(() => {});
+    return Promise.reject(getAbortReason(signal));
+  }
+  return new Promise<V>((resolve, reject) => {
+    const onAbort = () => reject(getAbortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
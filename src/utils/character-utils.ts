@@ -24,4 +24,55 @@ export const isNumberChar = (ch: string): boolean => {
     ch === "E" ||
     ch === "."
   );
-};
\ No newline at end of file
+};
+
+/**
+ * Checks if a character is a hexadecimal digit
+ */
+export const isHexDigit = (ch: string): boolean => {
+  return /[0-9a-fA-F]/.test(ch);
+};
+
+/**
+ * Checks if a character is JSON5 whitespace (any ECMAScript white space or line terminator)
+ */
+export const isJson5Whitespace = (ch: string): boolean => {
+  return /\s/.test(ch);
+};
+
+/**
+ * Checks if a character can start an ECMAScript identifier (a JSON5 unquoted key)
+ */
+export const isIdentifierStart = (ch: string): boolean => {
+  return /[\p{L}\p{Nl}$_]/u.test(ch);
+};
+
+/**
+ * Checks if a character can continue an ECMAScript identifier
+ */
+export const isIdentifierPart = (ch: string): boolean => {
+  return /[\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$_\u200c\u200d]/u.test(ch);
+};
+
+/**
+ * Returns the number of bytes a UTF-16 code unit occupies when encoded as UTF-8.
+ * Each half of a surrogate pair counts as 2 bytes so that a full pair adds up to 4.
+ */
+export const utf8ByteLength = (ch: string): number => {
+  const code = ch.charCodeAt(0);
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code >= 0xd800 && code <= 0xdfff) return 2;
+  return 3;
+};
+
+/**
+ * Returns the number of bytes a string occupies when encoded as UTF-8
+ */
+export const utf8StringByteLength = (text: string): number => {
+  let length = 0;
+  for (let i = 0; i < text.length; i++) {
+    length += utf8ByteLength(text[i]);
+  }
+  return length;
+};
@@ -0,0 +1,112 @@
+import type { JsonCheckpointValue } from '../types';
+import { encodeJsonPointerSegment } from './json-pointer';
+
+/**
+ * Options for rebuilding values stored in a checkpoint
+ */
+export interface DecodeCheckpointValueOptions {
+  /** Whether objects are created without a prototype */
+  nullPrototype: boolean;
+  /** Applied to every rebuilt object and array, such as `Object.freeze` */
+  seal: <V extends object>(value: V) => V;
+  /** Called with every object rebuilt, containers and dates alike */
+  onObject: (value: object) => void;
+}
+
+const isPlainContainer = (value: object): boolean => {
+  if (Array.isArray(value)) {
+    return true;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Converts a parsed value into its JSON-safe checkpoint form
+ * @param path - JSON Pointer of the value, for error messages
+ * @throws TypeError for values that cannot be restored, such as class instances
+ *   created by a reviver or a container factory
+ */
+export const encodeCheckpointValue = (value: unknown, path = ""): JsonCheckpointValue => {
+  switch (typeof value) {
+    case "undefined":
+      return { undefined: true };
+    case "boolean":
+    case "string":
+      return value;
+    case "bigint":
+      return { bigint: value.toString() };
+    case "number":
+      if (Number.isNaN(value)) {
+        return { number: "NaN" };
+      }
+      if (value === Infinity || value === -Infinity) {
+        return { number: value > 0 ? "Infinity" : "-Infinity" };
+      }
+      return Object.is(value, -0) ? { number: "-0" } : value;
+    case "object":
+      if (value === null) {
+        return null;
+      }
+      if (value instanceof Date) {
+        return { date: value.toISOString() };
+      }
+      if (!isPlainContainer(value)) {
+        break;
+      }
+      if (Array.isArray(value)) {
+        return value.map((item, index) => encodeCheckpointValue(item, path + "/" + index));
+      }
+      return {
+        object: Object.keys(value).map((key): [string, JsonCheckpointValue] => [
+          key,
+          encodeCheckpointValue((value as Record<string, unknown>)[key], path + "/" + encodeJsonPointerSegment(key)),
+        ]),
+      };
+  }
+  throw new TypeError(`Cannot checkpoint the value at "${path}"`);
+};
+
+/**
+ * Rebuilds a value from its checkpoint form
+ */
+export const decodeCheckpointValue = (
+  encoded: JsonCheckpointValue,
+  options: DecodeCheckpointValueOptions
+): unknown => {
+  if (encoded === null || typeof encoded !== "object") {
+    return encoded;
+  }
+  if (Array.isArray(encoded)) {
+    const array = options.seal(encoded.map((item) => decodeCheckpointValue(item, options)));
+    options.onObject(array);
+    return array;
+  }
+  if ("object" in encoded) {
+    const object: Record<string, unknown> = options.nullPrototype ? Object.create(null) : {};
+    for (const [key, item] of encoded.object) {
+      // defineProperty stores a "__proto__" key as data instead of replacing the prototype
+      Object.defineProperty(object, key, {
+        value: decodeCheckpointValue(item, options),
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    }
+    options.seal(object);
+    options.onObject(object);
+    return object;
+  }
+  if ("bigint" in encoded) {
+    return BigInt(encoded.bigint);
+  }
+  if ("number" in encoded) {
+    return encoded.number === "-0" ? -0 : Number(encoded.number);
+  }
+  if ("date" in encoded) {
+    const date = new Date(encoded.date);
+    options.onObject(date);
+    return date;
+  }
+  return undefined;
+};
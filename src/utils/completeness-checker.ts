@@ -37,7 +37,7 @@ export const isComplete = (value: any): boolean => {
   }
   
   for (const key in value) {
-    if (value.hasOwnProperty(key)) {
+    if (Object.prototype.hasOwnProperty.call(value, key)) {
       if (!isComplete(value[key])) {
         return false;
       }
@@ -90,7 +90,7 @@ export const isStructurallyComplete = (value: any, context: StructuralContext):
   }
   
   for (const key in value) {
-    if (value.hasOwnProperty(key)) {
+    if (Object.prototype.hasOwnProperty.call(value, key)) {
       if (!isStructurallyComplete(value[key], context)) {
         return false;
       }
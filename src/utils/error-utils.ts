@@ -1,12 +1,95 @@
+import type { ContextState, JsonParseLimit, ParserState } from '../types';
+
 /**
- * Creates a standardized JSON parsing error
+ * Stable identifiers of JSON syntax errors, suitable for grouping failures in logs
  */
-export const createParseError = (message: string, position?: number): Error => {
-  const fullMessage = position !== undefined 
-    ? `${message} at position ${position}`
-    : message;
-  return new Error(fullMessage);
-};
+export type JsonStreamParseErrorCode =
+  | "UNEXPECTED_TOKEN"
+  | "UNEXPECTED_END"
+  | "INVALID_ESCAPE"
+  | "INVALID_UNICODE_ESCAPE"
+  | "INVALID_STRING_CHARACTER"
+  | "INVALID_NUMBER"
+  | "UNEXPECTED_VALUE"
+  | "UNEXPECTED_COMMA"
+  | "UNEXPECTED_COLON"
+  | "UNEXPECTED_CLOSING_BRACKET"
+  | "MISMATCHED_CLOSING_BRACKET"
+  | "DUPLICATE_KEY"
+  | "LIMIT_EXCEEDED";
+
+/**
+ * Where in the input a JsonStreamParseError occurred
+ */
+export interface JsonStreamParseErrorDetails {
+  /** Offset of the offending character in UTF-8 bytes */
+  byteOffset: number;
+  /** Offset of the offending character in UTF-16 code units */
+  charOffset: number;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column, in UTF-16 code units */
+  column: number;
+  /** JSON Pointer of the innermost object or array being parsed ("" at the top level) */
+  pointer: string;
+  /** Tokenizer state when the error occurred */
+  parserState: ParserState;
+  /** What the innermost object or array expected next, if any */
+  contextState?: ContextState;
+  /** Input surrounding the error position */
+  snippet: string;
+  /** Index of the offending character within `snippet` */
+  snippetOffset: number;
+}
+
+/**
+ * Error thrown when a JSON stream contains invalid syntax
+ */
+export class JsonStreamParseError extends Error implements JsonStreamParseErrorDetails {
+  readonly code: JsonStreamParseErrorCode;
+  readonly byteOffset: number;
+  readonly charOffset: number;
+  readonly line: number;
+  readonly column: number;
+  readonly pointer: string;
+  readonly parserState: ParserState;
+  readonly contextState?: ContextState;
+  readonly snippet: string;
+  readonly snippetOffset: number;
+
+  constructor(code: JsonStreamParseErrorCode, reason: string, details: JsonStreamParseErrorDetails) {
+    super(`${reason} at line ${details.line}, column ${details.column}`);
+    this.name = "JsonStreamParseError";
+    this.code = code;
+    this.byteOffset = details.byteOffset;
+    this.charOffset = details.charOffset;
+    this.line = details.line;
+    this.column = details.column;
+    this.pointer = details.pointer;
+    this.parserState = details.parserState;
+    this.contextState = details.contextState;
+    this.snippet = details.snippet;
+    this.snippetOffset = details.snippetOffset;
+  }
+}
+
+/**
+ * Error thrown when a stream exceeds one of the configured resource limits.
+ * The position details tell where in the input the limit was exceeded.
+ */
+export class JsonStreamLimitError extends JsonStreamParseError {
+  /** The limit that was exceeded */
+  readonly limit: JsonParseLimit;
+  /** The configured value of the limit */
+  readonly max: number;
+
+  constructor(limit: JsonParseLimit, max: number, details: JsonStreamParseErrorDetails) {
+    super("LIMIT_EXCEEDED", `${limit} limit of ${max} exceeded`, details);
+    this.name = "JsonStreamLimitError";
+    this.limit = limit;
+    this.max = max;
+  }
+}
 
 /**
  * Creates a JSON Pointer validation error
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { JsonPayloadScanner, type JsonPayloadScannerOptions } from "./payload-scanner";
+
+const scanAtEverySplit = (text: string, options: JsonPayloadScannerOptions = {}): string[] => {
+  const results: string[] = [];
+  for (let i = 0; i <= text.length; i++) {
+    const scanner = new JsonPayloadScanner(options);
+    results.push(scanner.push(text.slice(0, i)) + scanner.push(text.slice(i)) + scanner.end());
+  }
+  return results;
+};
+
+describe("JsonPayloadScanner", () => {
+  it("strips prose and code fences around the payload", () => {
+    const text = 'Here is the result:\n```json\n{"items": [1, 2]}\n```\nLet me know if you need more!';
+    for (const payload of scanAtEverySplit(text)) {
+      expect(payload).toBe('{"items": [1, 2]}');
+    }
+  });
+
+  it("strips XSSI prefixes", () => {
+    for (const payload of scanAtEverySplit(")]}'\n[\"a\", {\"b\": null}]")) {
+      expect(payload).toBe('["a", {"b": null}]');
+    }
+  });
+
+  it("ignores brackets inside strings", () => {
+    const text = 'Result: {"text": "a } b ] \\" ]", "list": ["[", "{"]} trailing }';
+    for (const payload of scanAtEverySplit(text)) {
+      expect(payload).toBe('{"text": "a } b ] \\" ]", "list": ["[", "{"]}');
+    }
+  });
+
+  it("ignores brackets inside comments and single-quoted strings when the syntax allows them", () => {
+    const text = "```\n{a: '}', // }\n /* ] */ b: [1]}\n```";
+    for (const payload of scanAtEverySplit(text, { syntax: "json5" })) {
+      expect(payload).toBe("{a: '}', // }\n /* ] */ b: [1]}");
+    }
+  });
+
+  it("prefers a code fence to brackets in the prose before it", () => {
+    const text = 'Sure [1]. Here it is:\n```json\n{"a":1}\n```';
+    for (const payload of scanAtEverySplit(text)) {
+      expect(payload).toBe('{"a":1}');
+    }
+  });
+
+  it("goes on with the next candidate when one is not JSON", () => {
+    for (const payload of scanAtEverySplit('Result (see {docs}):\n{"a":1}')) {
+      expect(payload).toBe('{"a":1}');
+    }
+    for (const payload of scanAtEverySplit("Options {a|b} [x] are: [1, 2]")) {
+      expect(payload).toBe("[1, 2]");
+    }
+  });
+
+  it("holds a payload in the middle of prose back until the input ends", () => {
+    const scanner = new JsonPayloadScanner();
+    expect(scanner.push('The answer is {"a": 1}')).toBe("");
+    expect(scanner.push(" as requested {\"b\": 2}.")).toBe("");
+    expect(scanner.end()).toBe('{"a": 1}');
+    expect(scanner.done).toBe(true);
+  });
+
+  it("passes a payload in the middle of prose on once a later line starts with prose", () => {
+    const scanner = new JsonPayloadScanner();
+    expect(scanner.push('Here is the result: {"a": 1}.\n')).toBe("");
+    expect(scanner.push("\nLet me know")).toBe('{"a": 1}');
+    expect(scanner.done).toBe(true);
+    expect(scanner.end()).toBe("");
+
+    const text = 'Here is the result: {"a": 1}\n`code` and [2]\n';
+    for (const payload of scanAtEverySplit(text)) {
+      expect(payload).toBe('{"a": 1}');
+    }
+  });
+
+  it("does not take words in brackets for a payload", () => {
+    for (const payload of scanAtEverySplit("I think [this] is it")) {
+      expect(payload).toBe("");
+    }
+    for (const payload of scanAtEverySplit("I think [this] is [1, true, null]")) {
+      expect(payload).toBe("[1, true, null]");
+    }
+    for (const payload of scanAtEverySplit('See [n/a] or [nothing, "x"] for {"a": [false]}')) {
+      expect(payload).toBe('{"a": [false]}');
+    }
+    const scanner = new JsonPayloadScanner();
+    expect(scanner.push('Partial: {"ok": tr')).toBe("");
+    expect(scanner.end()).toBe('{"ok": tr');
+  });
+
+  it("passes a payload starting a line through as it streams", () => {
+    const scanner = new JsonPayloadScanner();
+    expect(scanner.push('See [1].\n  {"a": ')).toBe('{"a": ');
+    expect(scanner.push("1}")).toBe("1}");
+    expect(scanner.end()).toBe("");
+  });
+
+  it("reports when the payload is complete", () => {
+    const scanner = new JsonPayloadScanner();
+    expect(scanner.push("ok:\n[1, [2")).toBe("[1, [2");
+    expect(scanner.done).toBe(false);
+    expect(scanner.push("]] done [3]")).toBe("]]");
+    expect(scanner.done).toBe(true);
+    expect(scanner.push("[4]")).toBe("");
+  });
+});
@@ -0,0 +1,345 @@
+import type { JsonSyntax } from '../types';
+import { isWhitespace, isIdentifierStart } from './character-utils';
+
+/**
+ * Options for controlling JsonPayloadScanner behavior
+ */
+export interface JsonPayloadScannerOptions {
+  /**
+   * Dialect of the payload, so that quotes and comments that may contain
+   * brackets are recognized
+   * @default "json"
+   */
+  syntax?: JsonSyntax;
+}
+
+type ScannerState =
+  | "preamble"
+  | "fenceInfo"
+  | "candidate"
+  | "value"
+  | "string"
+  | "escape"
+  | "slash"
+  | "lineComment"
+  | "blockComment"
+  | "blockCommentStar"
+  | "postamble";
+
+/** Characters that can start a value in JSON */
+const VALUE_START = /^[[{"\]\-0-9tfn]$/;
+
+/** Characters that can also start a value in JSON5 */
+const JSON5_VALUE_START = /^['+.IN]$/;
+
+/** Words that can appear outside strings in JSON */
+const JSON_LITERALS = ["true", "false", "null"];
+
+/** Characters of numbers, literals and unquoted keys */
+const BARE_CHARACTER = /^[\w$.+-]$/;
+
+/**
+ * Locates the JSON payload in streamed text that surrounds it with other content:
+ * prose such as "Here is the result:", Markdown code fences or XSSI prefixes like `)]}'`.
+ *
+ * Candidates start at a `{` or `[` and are only accepted when the next character can
+ * follow it in JSON; otherwise the search goes on after the bracket. The contents of
+ * a code fence and candidates starting a line are passed through as they stream.
+ * A candidate in the middle of a line of prose (such as "see [1]") is held back until
+ * it closes, and dropped if it contains words that are not JSON (as in "[this]").
+ * It is passed on once a later line starts with something else than a code fence
+ * or a candidate, which would be preferred, or when `end()` signals the end of the
+ * input, so call `end()` once the input is complete.
+ * Everything after the closing bracket of the payload is dropped. Top-level
+ * primitives are not detected since they cannot be told apart from prose.
+ *
+ * @example
+ * ```typescript
+ * const scanner = new JsonPayloadScanner();
+ * parser.feed(scanner.push('Sure! ```json\n{"a": '));  // feeds '{"a": '
+ * parser.feed(scanner.push('1}\n```'));                  // feeds '1}'
+ * parser.feed(scanner.end());                           // feeds ''
+ * ```
+ */
+export class JsonPayloadScanner {
+  private state: ScannerState = "preamble";
+  private depth = 0;
+  private quote = '"';
+  private json5: boolean;
+  private comments: boolean;
+  /** Whether only whitespace has been seen since the start of the line */
+  private lineStart = true;
+  /** Number of backticks starting the current line */
+  private backticks = 0;
+  /** Whether the scanner is inside a Markdown code fence */
+  private fenced = false;
+  /** Opening bracket of the candidate */
+  private opening = "{";
+  /** Whether the candidate started in the middle of a line of prose */
+  private inline = false;
+  /** Whether the candidate is held back instead of passed through */
+  private holding = false;
+  /** Text of the candidate held back so far, in previous chunks */
+  private held = "";
+  /** Complete candidate found in prose, which is the payload if nothing better follows */
+  private fallback: string | null = null;
+  /** Number, literal or unquoted key being scanned in a candidate held back from prose */
+  private bare = "";
+  /** Whether the candidate held back from prose only contains JSON words so far */
+  private valid = true;
+
+  constructor(options: JsonPayloadScannerOptions = {}) {
+    const syntax = options.syntax ?? "json";
+    this.json5 = syntax === "json5";
+    this.comments = syntax !== "json";
+  }
+
+  /**
+   * Whether the payload has been found and passed on in full
+   */
+  get done(): boolean {
+    return this.state === "postamble";
+  }
+
+  /**
+   * Scans the next chunk of input and returns the part of it that belongs to the payload
+   */
+  push(chunk: string): string {
+    if (this.state === "postamble") {
+      return "";
+    }
+    let text = chunk;
+    let output = "";
+    // Where the text passed through and the text held back start in `text`, or -1
+    let passFrom = this.holding || !this.inPayload() ? -1 : 0;
+    let holdFrom = this.holding ? 0 : -1;
+    let end = text.length;
+    let i = 0;
+    // Drops the candidate and goes on searching after its opening bracket
+    const retry = (): void => {
+      this.state = "preamble";
+      this.lineStart = false;
+      this.holding = false;
+      if (this.held === "") {
+        i = holdFrom;
+      } else {
+        text = this.held.slice(1) + text;
+        end = text.length;
+        this.held = "";
+        i = -1;
+      }
+      holdFrom = -1;
+    };
+    for (; i < text.length && this.state !== "postamble"; i++) {
+      const ch = text[i];
+      switch (this.state) {
+        case "preamble":
+          if (this.fallback !== null && this.lineStart && !isWhitespace(ch) && !"`{[".includes(ch)) {
+            // The line after the held candidate does not start a better one
+            output += this.passFallback();
+          } else if (ch === "{" || ch === "[") {
+            this.state = "candidate";
+            this.depth = 1;
+            this.opening = ch;
+            this.inline = !this.lineStart && !this.fenced;
+            this.holding = true;
+            this.bare = "";
+            this.valid = true;
+            holdFrom = i;
+          } else if (ch === "`" && (this.lineStart || this.backticks > 0)) {
+            this.lineStart = false;
+            if (++this.backticks === 3) {
+              this.backticks = 0;
+              if (this.fenced) {
+                this.fenced = false;
+              } else {
+                this.state = "fenceInfo";
+              }
+            }
+          } else if (this.backticks > 0 && this.fallback !== null) {
+            // Backticks starting a line, but not a code fence
+            output += this.passFallback();
+          } else {
+            this.backticks = 0;
+            if (ch === "\n") {
+              this.lineStart = true;
+            } else if (!isWhitespace(ch)) {
+              this.lineStart = false;
+            }
+          }
+          break;
+        case "fenceInfo":
+          if (ch === "\n") {
+            this.state = "preamble";
+            this.fenced = true;
+            this.lineStart = true;
+          }
+          break;
+        case "candidate":
+          if (isWhitespace(ch)) {
+            break;
+          }
+          if (this.startsPayload(ch)) {
+            if (!this.inline) {
+              // Passed through from the opening bracket on
+              output += this.held;
+              this.held = "";
+              this.holding = false;
+              this.fallback = null;
+              passFrom = holdFrom;
+              holdFrom = -1;
+            }
+            this.state = "value";
+            // Scanned again as part of the value
+            i--;
+            break;
+          }
+          if (this.fallback !== null && !this.inline) {
+            // A line starting with a bracket that is not JSON
+            output += this.passFallback();
+            break;
+          }
+          // Not JSON: the search goes on after the opening bracket
+          retry();
+          break;
+        case "value":
+          if (this.inline) {
+            this.checkBare(ch);
+          }
+          if (ch === "{" || ch === "[") {
+            this.depth++;
+          } else if (ch === "}" || ch === "]") {
+            this.depth--;
+            if (this.depth > 0) {
+              break;
+            }
+            if (this.holding && !this.valid) {
+              retry();
+            } else if (this.holding) {
+              this.fallback ??= this.held + text.slice(holdFrom, i + 1);
+              this.held = "";
+              this.holding = false;
+              holdFrom = -1;
+              this.state = "preamble";
+              this.lineStart = false;
+            } else {
+              this.state = "postamble";
+              end = i + 1;
+            }
+          } else if (ch === '"' || (ch === "'" && this.json5)) {
+            this.state = "string";
+            this.quote = ch;
+          } else if (ch === "/" && this.comments) {
+            this.state = "slash";
+          }
+          break;
+        case "string":
+          if (ch === "\\") {
+            this.state = "escape";
+          } else if (ch === this.quote) {
+            this.state = "value";
+          }
+          break;
+        case "escape":
+          this.state = "string";
+          break;
+        case "slash":
+          this.state = ch === "/" ? "lineComment" : ch === "*" ? "blockComment" : "value";
+          break;
+        case "lineComment":
+          if (ch === "\n") {
+            this.state = "value";
+          }
+          break;
+        case "blockComment":
+          if (ch === "*") {
+            this.state = "blockCommentStar";
+          }
+          break;
+        case "blockCommentStar":
+          this.state = ch === "/" ? "value" : ch === "*" ? "blockCommentStar" : "blockComment";
+          break;
+      }
+    }
+    if (passFrom >= 0) {
+      output += text.slice(passFrom, end);
+    }
+    if (holdFrom >= 0) {
+      this.held += text.slice(holdFrom);
+    }
+    return output;
+  }
+
+  /**
+   * Signals the end of the input and returns the rest of the payload: the candidate
+   * held back from prose, or a truncated one, if no payload was passed through
+   */
+  end(): string {
+    if (this.state === "postamble") {
+      return "";
+    }
+    if (this.holding && this.inline) {
+      this.checkBare("");
+    }
+    const rest = this.fallback ?? (this.holding && this.valid ? this.held : "");
+    this.state = "postamble";
+    this.held = "";
+    this.holding = false;
+    this.fallback = null;
+    return rest;
+  }
+
+  /**
+   * Returns the candidate held back from prose as the payload
+   */
+  private passFallback(): string {
+    const payload = this.fallback!;
+    this.fallback = null;
+    this.state = "postamble";
+    return payload;
+  }
+
+  /**
+   * Collects the numbers and words of a candidate held back from prose and checks
+   * each one once it ends (`ch` is not part of it), so that prose in brackets is not
+   * taken for JSON. JSON5 allows unquoted keys, so any word is accepted there.
+   */
+  private checkBare(ch: string): void {
+    if (BARE_CHARACTER.test(ch)) {
+      this.bare += ch;
+      return;
+    }
+    if (this.bare === "") {
+      return;
+    }
+    const bare = this.bare;
+    this.bare = "";
+    if (this.json5 || /^-?\d/.test(bare)) {
+      return;
+    }
+    // The input may end in the middle of a literal
+    if (!JSON_LITERALS.some((literal) => (ch === "" ? literal.startsWith(bare) : literal === bare))) {
+      this.valid = false;
+    }
+  }
+
+  /**
+   * Whether the payload is being passed through or held back
+   */
+  private inPayload(): boolean {
+    return this.state !== "preamble" && this.state !== "fenceInfo" && this.state !== "candidate";
+  }
+
+  /**
+   * Whether `ch` can follow the opening bracket of a JSON payload
+   */
+  private startsPayload(ch: string): boolean {
+    if (ch === "/" && this.comments) {
+      return true;
+    }
+    if (this.opening === "{") {
+      return ch === '"' || ch === "}" || (this.json5 && (ch === "'" || isIdentifierStart(ch)));
+    }
+    return VALUE_START.test(ch) || (this.json5 && JSON5_VALUE_START.test(ch));
+  }
+}
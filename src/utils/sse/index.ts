@@ -10,5 +10,6 @@ export {
   createSSEStreamReader, 
   createSSEStreamingParser,
   extractJSONFromSSELine,
-  type SSEMessage
+  type SSEMessage,
+  type SSEStreamOptions
 } from './sse-parser';
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { parseSSEStream, createSSEStreamReader, extractJSONFromSSELine, parseSSEMessages } from './sse-parser';
+import { JsonStreamLimitError } from '../error-utils';
 
 // Mock the private function for testing
 const extractJSONFromSSELineTest = (line: string): string | null => {
@@ -358,4 +359,63 @@ describe('SSE Parser', () => {
       expect(JSON.parse(value!)).toEqual({ test: "value" });
     });
   });
-});
\ No newline at end of file
+
+  describe('maxSSEMessageBytes', () => {
+    const createStream = (chunks: string[]) => {
+      const encoder = new TextEncoder();
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+          controller.close();
+        }
+      });
+    };
+
+    const readAll = async <T>(stream: ReadableStream<T>) => {
+      const reader = stream.getReader();
+      const results: T[] = [];
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        results.push(value);
+      }
+      return results;
+    };
+
+    it('should pass lines within the limit', async () => {
+      const stream = parseSSEStream(createStream(['data: {"a":1}\n\n', 'data: {"b":"€"}\n\n']), {
+        limits: { maxSSEMessageBytes: 17 }
+      });
+      expect(await readAll(stream)).toEqual(['{"a":1}', '{"b":"€"}']);
+    });
+
+    it('should reject a line exceeding the limit with its position', async () => {
+      const stream = parseSSEStream(createStream(['data: {"a":1}\n\ndata: {"b":"', 'xxxxxxxxxxxx"}\n\n']), {
+        limits: { maxSSEMessageBytes: 16 }
+      });
+      const error = await readAll(stream).catch(e => e);
+      expect(error).toBeInstanceOf(JsonStreamLimitError);
+      expect(error.limit).toBe('maxSSEMessageBytes');
+      expect(error.max).toBe(16);
+      expect(error.line).toBe(3);
+      expect(error.byteOffset).toBe(15);
+    });
+
+    it('should reject a line that never ends before it is complete', async () => {
+      const chunks = Array.from({ length: 100 }, () => 'xxxxxxxxxx');
+      const stream = parseSSEStream(createStream(['data: "', ...chunks]), {
+        limits: { maxSSEMessageBytes: 64 }
+      });
+      await expect(readAll(stream)).rejects.toBeInstanceOf(JsonStreamLimitError);
+    });
+
+    it('should measure whole messages in parseSSEMessages', async () => {
+      const sse = 'event: a\ndata: {"a":1}\n\nevent: b\ndata: {"b":2}\ndata: {"c":3}\n\n';
+      const error = await readAll(parseSSEMessages(createStream([sse]), { limits: { maxSSEMessageBytes: 24 } })).catch(e => e);
+      expect(error).toBeInstanceOf(JsonStreamLimitError);
+      expect(error.line).toBe(4);
+      expect(error.byteOffset).toBe(24);
+      expect(await readAll(parseSSEMessages(createStream([sse]), { limits: { maxSSEMessageBytes: 40 } }))).toHaveLength(2);
+    });
+  });
+});
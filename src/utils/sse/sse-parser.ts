@@ -6,7 +6,10 @@
  * https://html.spec.whatwg.org/multipage/server-sent-events.html
  */
 
-import { StreamingJsonParser } from "../../streaming-json-parser";
+import { StreamingJsonParser, type StreamingJsonParserOptions } from "../../streaming-json-parser";
+import type { JsonParseLimits } from "../../types";
+import { utf8StringByteLength } from "../character-utils";
+import { JsonStreamLimitError } from "../error-utils";
 
 export interface SSEMessage {
   id?: string;
@@ -15,10 +18,74 @@ export interface SSEMessage {
   retry?: number;
 }
 
+/**
+ * Options for controlling how SSE streams are read
+ */
+export interface SSEStreamOptions {
+  /**
+   * Limits guarding against hostile streams. `maxSSEMessageBytes` bounds the size
+   * of a single line (or message, for `parseSSEMessages`) held in memory.
+   */
+  limits?: Pick<JsonParseLimits, "maxSSEMessageBytes">;
+}
+
+/**
+ * Enforces `maxSSEMessageBytes` on the pieces an SSE reader buffers, keeping track of
+ * where they start in the stream for error reporting
+ */
+class SSEMessageSizeGuard {
+  private byteOffset = 0;
+  private charOffset = 0;
+  private line = 1;
+
+  constructor(private max: number) {}
+
+  /**
+   * Checks a complete piece and moves past it and its separator
+   */
+  complete(piece: string, separator: string): void {
+    this.check(piece);
+    const text = piece + separator;
+    this.byteOffset += utf8StringByteLength(text);
+    this.charOffset += text.length;
+    this.line += text.split("\n").length - 1;
+  }
+
+  /**
+   * Checks the incomplete piece still waiting for its separator
+   */
+  pending(buffer: string): void {
+    this.check(buffer);
+  }
+
+  private check(piece: string): void {
+    // A UTF-16 code unit never takes more than 3 UTF-8 bytes
+    if (piece.length * 3 <= this.max || utf8StringByteLength(piece) <= this.max) {
+      return;
+    }
+    throw new JsonStreamLimitError("maxSSEMessageBytes", this.max, {
+      byteOffset: this.byteOffset,
+      charOffset: this.charOffset,
+      line: this.line,
+      column: 1,
+      pointer: "",
+      parserState: "default",
+      snippet: piece.slice(0, 40),
+      snippetOffset: 0,
+    });
+  }
+}
+
+const createSizeGuard = (options: SSEStreamOptions): SSEMessageSizeGuard | null => {
+  const max = options.limits?.maxSSEMessageBytes;
+  return max === undefined ? null : new SSEMessageSizeGuard(max);
+};
+
 /**
  * Parses Server-Sent Events (SSE) stream format and extracts JSON data chunks
  *
  * @param sseStream - ReadableStream containing SSE formatted data
+ * @param options - Limits applied while reading the stream
  * @returns ReadableStream of JSON strings
  *
  * @example
@@ -44,14 +111,17 @@ export interface SSEMessage {
  * ```
  */
 export function parseSSEStream(
-  sseStream: ReadableStream<Uint8Array>
+  sseStream: ReadableStream<Uint8Array>,
+  options: SSEStreamOptions = {}
 ): ReadableStream<string> {
   const decoder = new TextDecoder();
+  const guard = createSizeGuard(options);
   let buffer = "";
 
+  const reader = sseStream.getReader();
+
   return new ReadableStream<string>({
     async start(controller) {
-      const reader = sseStream.getReader();
 
       try {
         while (true) {
@@ -79,11 +149,13 @@ export function parseSSEStream(
           buffer = lines.pop() || ""; // Keep incomplete line in buffer
 
           for (const line of lines) {
+            guard?.complete(line, "\n");
             const jsonChunk = extractJSONFromSSELine(line);
             if (jsonChunk) {
               controller.enqueue(jsonChunk);
             }
           }
+          guard?.pending(buffer);
         }
       } catch (error) {
         controller.error(error);
@@ -91,6 +163,9 @@ export function parseSSEStream(
         reader.releaseLock();
       }
     },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
   });
 }
 
@@ -98,6 +173,7 @@ export function parseSSEStream(
  * Parses SSE stream and yields complete SSEMessage objects instead of just JSON strings
  *
  * @param sseStream - ReadableStream containing SSE formatted data
+ * @param options - Limits applied while reading the stream
  * @returns ReadableStream of SSEMessage objects
  *
  * @example
@@ -117,14 +193,17 @@ export function parseSSEStream(
  * ```
  */
 export function parseSSEMessages(
-  sseStream: ReadableStream<Uint8Array>
+  sseStream: ReadableStream<Uint8Array>,
+  options: SSEStreamOptions = {}
 ): ReadableStream<SSEMessage> {
   const decoder = new TextDecoder();
+  const guard = createSizeGuard(options);
   let buffer = "";
 
+  const reader = sseStream.getReader();
+
   return new ReadableStream<SSEMessage>({
     async start(controller) {
-      const reader = sseStream.getReader();
 
       try {
         while (true) {
@@ -149,11 +228,13 @@ export function parseSSEMessages(
           buffer = messages.pop() || ""; // Keep incomplete message in buffer
 
           for (const messageText of messages) {
+            guard?.complete(messageText, "\n\n");
             const message = parseSSEMessageFromBuffer(messageText);
             if (message) {
               controller.enqueue(message);
             }
           }
+          guard?.pending(buffer);
         }
       } catch (error) {
         controller.error(error);
@@ -161,6 +242,9 @@ export function parseSSEMessages(
         reader.releaseLock();
       }
     },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
   });
 }
 
@@ -266,6 +350,7 @@ function parseSSEMessageFromBuffer(messageText: string): SSEMessage | null {
  * This is a convenience function that combines parseSSEStream with getReader()
  *
  * @param sseStream - ReadableStream containing SSE formatted data
+ * @param options - Limits applied while reading the stream
  * @returns ReadableStreamDefaultReader for use with StreamingJsonParser
  *
  * @example
@@ -291,15 +376,18 @@ function parseSSEMessageFromBuffer(messageText: string): SSEMessage | null {
  * ```
  */
 export function createSSEStreamReader(
-  sseStream: ReadableStream<Uint8Array>
+  sseStream: ReadableStream<Uint8Array>,
+  options: SSEStreamOptions = {}
 ): ReadableStreamDefaultReader<string> {
-  return parseSSEStream(sseStream).getReader();
+  return parseSSEStream(sseStream, options).getReader();
 }
 
 /**
  * Convenience function to create a StreamingJsonParser from an SSE stream
  *
  * @param sseStream - ReadableStream containing SSE formatted data
+ * @param options - Options for the StreamingJsonParser (e.g. `syntax`); `limits` also
+ *   bound the size of SSE lines
  * @returns StreamingJsonParser instance ready to use
  *
  * @example
@@ -333,8 +421,9 @@ export function createSSEStreamReader(
  * ```
  */
 export async function createSSEStreamingParser(
-  sseStream: ReadableStream<Uint8Array>
+  sseStream: ReadableStream<Uint8Array>,
+  options: StreamingJsonParserOptions = {}
 ) {
-  const reader = createSSEStreamReader(sseStream);
-  return new StreamingJsonParser(reader);
+  const reader = createSSEStreamReader(sseStream, { limits: options.limits });
+  return new StreamingJsonParser(reader, options);
 }
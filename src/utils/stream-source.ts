@@ -0,0 +1,160 @@
+import type { StreamChunk } from '../types';
+
+/**
+ * A chunk of JSON text as produced by the supported sources: strings, UTF-8 bytes
+ * (`Uint8Array`, Node `Buffer`) or other binary views of UTF-8 bytes
+ */
+export type JsonSourceChunk = string | Uint8Array | ArrayBuffer | ArrayBufferView;
+
+/**
+ * Anything JSON text can be read from: web streams and their readers, async and sync
+ * iterables of chunks (async generators, Node `Readable` streams such as
+ * `fs.createReadStream()`), fetch `Response`s, `Blob`s, or the whole text at once
+ */
+export type JsonStreamSource =
+  | ReadableStream<JsonSourceChunk>
+  | ReadableStreamDefaultReader<JsonSourceChunk>
+  | AsyncIterable<JsonSourceChunk>
+  | Iterable<JsonSourceChunk>
+  | Response
+  | Blob
+  | JsonSourceChunk;
+
+const isReadableStream = (value: any): value is ReadableStream<unknown> => {
+  return typeof value.getReader === 'function' && typeof value.tee === 'function';
+};
+
+const isStreamReader = (value: any): value is ReadableStreamDefaultReader<unknown> => {
+  return typeof value.read === 'function' && typeof value.releaseLock === 'function';
+};
+
+const isResponse = (value: any): value is Response => {
+  return 'body' in value && typeof value.bodyUsed === 'boolean';
+};
+
+const isBlob = (value: any): value is Blob => {
+  return typeof Blob !== 'undefined' && value instanceof Blob;
+};
+
+/**
+ * Converts the chunks of any supported source to the chunks the parsers accept
+ */
+export const normalizeChunk = (chunk: unknown): StreamChunk => {
+  if (typeof chunk === 'string' || chunk instanceof Uint8Array) {
+    return chunk;
+  }
+  if (chunk instanceof ArrayBuffer) {
+    return new Uint8Array(chunk);
+  }
+  if (ArrayBuffer.isView(chunk)) {
+    return new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  }
+  throw new TypeError('Unsupported JSON stream chunk: ' + Object.prototype.toString.call(chunk));
+};
+
+/**
+ * Reads the chunks of an iterator on demand. Cancelling returns the iterator,
+ * which runs the `finally` blocks of generators and destroys Node streams.
+ */
+const fromIterator = (iterator: AsyncIterator<unknown> | Iterator<unknown>): ReadableStream<StreamChunk> => {
+  return new ReadableStream<StreamChunk>(
+    {
+      async pull(controller) {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(normalizeChunk(value));
+        }
+      },
+      async cancel(reason) {
+        await iterator.return?.(reason);
+      },
+    },
+    { highWaterMark: 0 }
+  );
+};
+
+/**
+ * Reads the chunks of a stream reader on demand. The lock is released once the
+ * stream ends, fails or is cancelled, so the source stream is never left locked.
+ * @param owned - Whether the lock was taken here; readers passed in by the caller
+ *   stay locked when the stream ends
+ */
+const fromReader = (reader: ReadableStreamDefaultReader<unknown>, owned: boolean): ReadableStream<StreamChunk> => {
+  const release = () => {
+    if (owned) {
+      reader.releaseLock();
+    }
+  };
+  return new ReadableStream<StreamChunk>(
+    {
+      async pull(controller) {
+        const result = await reader.read().catch((error) => {
+          release();
+          throw error;
+        });
+        if (result.done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(normalizeChunk(result.value));
+        }
+      },
+      async cancel(reason) {
+        try {
+          await reader.cancel(reason);
+        } finally {
+          release();
+        }
+      },
+    },
+    { highWaterMark: 0 }
+  );
+};
+
+const toReadableStream = (source: JsonStreamSource): ReadableStream<StreamChunk> => {
+  if (typeof source === 'string' || source instanceof ArrayBuffer || ArrayBuffer.isView(source)) {
+    return fromIterator([source][Symbol.iterator]());
+  }
+  if (source === null || typeof source !== 'object') {
+    throw new TypeError('Unsupported JSON stream source: ' + String(source));
+  }
+  if (isReadableStream(source)) {
+    return fromReader(source.getReader(), true);
+  }
+  if (isStreamReader(source)) {
+    return fromReader(source, false);
+  }
+  if (isResponse(source)) {
+    return source.body ? fromReader(source.body.getReader(), true) : fromIterator([][Symbol.iterator]());
+  }
+  if (isBlob(source)) {
+    return fromReader(source.stream().getReader(), true);
+  }
+  if (Symbol.asyncIterator in source) {
+    return fromIterator((source as AsyncIterable<unknown>)[Symbol.asyncIterator]());
+  }
+  if (Symbol.iterator in source) {
+    return fromIterator((source as Iterable<unknown>)[Symbol.iterator]());
+  }
+  throw new TypeError('Unsupported JSON stream source: ' + Object.prototype.toString.call(source));
+};
+
+/**
+ * Creates a reader over any supported source, with the same on-demand reading,
+ * lock release and cleanup for all of them. Cancelling the reader cancels the
+ * source (or returns its iterator).
+ *
+ * @example
+ * ```typescript
+ * import { createReadStream } from 'node:fs';
+ *
+ * for await (const snapshot of incrementalJsonParser(createJsonStreamReader(createReadStream('data.json')))) {
+ *   console.log(snapshot);
+ * }
+ * ```
+ */
+export const createJsonStreamReader = (source: JsonStreamSource): ReadableStreamDefaultReader<StreamChunk> => {
+  return toReadableStream(source).getReader();
+};
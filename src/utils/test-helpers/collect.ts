@@ -0,0 +1,30 @@
+/**
+ * Reads an async iterable to the end and returns every value it yielded.
+ *
+ * @param iterable - The iterable to read, such as a watcher
+ * @returns The values in the order they were yielded
+ */
+export async function collect<V>(iterable: AsyncIterable<V>): Promise<V[]> {
+  const results: V[] = [];
+  for await (const value of iterable) {
+    results.push(value);
+  }
+  return results;
+}
+
+/**
+ * Reads a ReadableStream to the end and returns every chunk it produced.
+ *
+ * @param stream - The stream to read
+ * @returns The chunks in the order they were read
+ */
+export async function collectStream<V>(stream: ReadableStream<V>): Promise<V[]> {
+  const results: V[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    results.push(value);
+  }
+  return results;
+}
@@ -0,0 +1,15 @@
+/**
+ * Creates a reader over a stream whose chunks the test enqueues itself, through
+ * the returned controller, to control exactly what has arrived at each step.
+ *
+ * @returns The controller of the stream and a reader of it
+ */
+export function createControlledReader() {
+  let controller!: ReadableStreamDefaultController<string>;
+  const stream = new ReadableStream<string>({
+    start(c) {
+      controller = c;
+    },
+  });
+  return { controller, reader: stream.getReader() };
+}
@@ -0,0 +1,34 @@
+/**
+ * Creates a ReadableStream that streams `chunks` on demand, then waits forever
+ * instead of closing when `stall` is set, like a response that is still being
+ * generated. The returned `source` records the reads and whether (and why) the
+ * stream was cancelled.
+ *
+ * @param chunks - The chunks to stream, one per read
+ * @param stall - Whether to wait forever after the last chunk (default: true)
+ * @returns The stream and its recorded state
+ */
+export function createStallingSource(chunks: string[], stall = true) {
+  const source = { cancelled: false, reason: undefined as unknown, reads: 0 };
+  let index = 0;
+  const stream = new ReadableStream<string>(
+    {
+      pull(controller) {
+        source.reads++;
+        if (index < chunks.length) {
+          controller.enqueue(chunks[index++]);
+        } else if (stall) {
+          return new Promise<void>(() => {});
+        } else {
+          controller.close();
+        }
+      },
+      cancel(reason) {
+        source.cancelled = true;
+        source.reason = reason;
+      },
+    },
+    { highWaterMark: 0 }
+  );
+  return { stream, source };
+}
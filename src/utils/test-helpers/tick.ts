@@ -0,0 +1,4 @@
+/**
+ * Waits for a macrotask, letting pending reads and promise callbacks settle.
+ */
+export const tick = () => new Promise((resolve) => setTimeout(resolve, 0));